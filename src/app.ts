@@ -2,17 +2,59 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
-import { config } from './utils/config.js';
+import { analysisPrice, config } from './utils/config.js';
 import { logger } from './utils/logger.js';
+import { HttpError } from './utils/errors.js';
+import { SiweService, parseSiweMessage } from './services/siweService.js';
+import { SessionService, getSessionContext } from './services/sessionService.js';
+import { ApiKeyService, API_KEY_SCOPES, isApiKey } from './services/apiKeyService.js';
+import { AccountLinkService, walletPlaceholderEmail } from './services/accountLinkService.js';
+import { AccountEmailService } from './services/accountEmailService.js';
+import { TwoFactorService } from './services/twoFactorService.js';
+import { LoginThrottleService, ThrottleResult, accountThrottleKey, ipThrottleKey } from './services/loginThrottleService.js';
+import { OrganizationService } from './services/organizationService.js';
+import { AccountDataService } from './services/accountDataService.js';
+import { AnalysisGenerationService } from './services/analysisGenerationService.js';
+import { AnalysisProgressService } from './services/analysisProgressService.js';
+import { prepareAnalysisParameters } from './services/analysisParameters.js';
+import { CreditService } from './services/creditService.js';
+import { ReportExportService } from './services/reportExportService.js';
+import { AnalysisVersionService } from './services/analysisVersionService.js';
+import { LlmUsageService } from './services/llmUsageService.js';
+import { getCredential, requireRole, requireScope, requireSession } from './utils/middleware/auth.js';
+import { openEventStream } from './utils/sse.js';
+import { verifyWebhookSignature } from './utils/webhookSignature.js';
+import adminRoutes from './routes/admin.js';
+import organizationRoutes from './routes/organizations.js';
+import marketRoutes from './routes/market.js';
+import scheduleRoutes from './routes/schedules.js';
+import creditRoutes from './routes/credits.js';
+import shareLinkRoutes from './routes/shareLinks.js';
+import sharedRoutes from './routes/shared.js';
+import backtestRoutes from './routes/backtests.js';
 
 // Import dependencies
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { ethers } from 'ethers';
 
 const app = express();
 const prisma = new PrismaClient();
+const siweService = new SiweService();
+const sessionService = new SessionService();
+const apiKeyService = new ApiKeyService();
+const accountLinkService = new AccountLinkService();
+const accountEmailService = new AccountEmailService();
+const twoFactorService = new TwoFactorService();
+const loginThrottleService = new LoginThrottleService();
+const organizationService = new OrganizationService();
+const accountDataService = new AccountDataService();
+const analysisGenerationService = new AnalysisGenerationService();
+const analysisProgressService = new AnalysisProgressService();
+const creditService = new CreditService();
+const reportExportService = new ReportExportService();
+const analysisVersionService = new AnalysisVersionService();
+const llmUsageService = new LlmUsageService();
 
 // Security middleware
 app.use(helmet());
@@ -29,8 +71,15 @@ const limiter = rateLimit({
 });
 app.use(limiter);
 
-// Body parsing
-app.use(express.json({ limit: '10mb' }));
+// Body parsing; payment webhooks keep the raw body their signature covers
+app.use(express.json({
+  limit: '10mb',
+  verify: (req: any, res, buf) => {
+    if (req.originalUrl?.startsWith('/api/payments/webhook')) {
+      req.rawBody = buf;
+    }
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Logging middleware
@@ -52,30 +101,46 @@ app.get('/health', (req, res) => {
 // Authentication middleware
 const authenticate = async (req: any, res: any, next: any) => {
   try {
-    const authHeader = req.headers.authorization;
+    // Bearer JWT, or an API key in either X-API-Key or the Bearer slot
+    const token = getCredential(req);
     
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return res.status(401).json({ error: 'Authentication token required' });
     }
 
-    const token = authHeader.substring(7);
-    
     try {
-      const decoded = jwt.verify(token, config.jwt.secret) as any;
+      let userId: string;
+
+      if (isApiKey(token)) {
+        const verified = await apiKeyService.verifyKey(token);
+        userId = verified.userId;
+        req.apiKey = { id: verified.apiKeyId, scopes: verified.scopes };
+      } else {
+        const verified = await sessionService.verifyAccessToken(token);
+        userId = verified.userId;
+        req.sessionId = verified.sessionId;
+      }
       
       const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: { id: true, email: true, walletId: true, walletAddress: true },
+        where: { id: userId },
+        select: { id: true, email: true, emailVerifiedAt: true, walletId: true, walletAddress: true, role: true, disabledAt: true },
       });
 
       if (!user) {
         return res.status(401).json({ error: 'User not found' });
       }
 
+      if (user.disabledAt) {
+        return res.status(403).json({ error: 'Account disabled' });
+      }
+
       req.user = user;
       next();
-    } catch (jwtError) {
-      return res.status(401).json({ error: 'Invalid or expired token' });
+    } catch (authError) {
+      if (authError instanceof HttpError) {
+        return res.status(authError.status).json({ error: authError.message });
+      }
+      throw authError;
     }
   } catch (error) {
     return res.status(500).json({ error: 'Authentication error' });
@@ -87,6 +152,12 @@ const validateEmail = (email: string) => {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
 };
 
+// Rejects a throttled login attempt
+const sendThrottled = (res: any, throttle: ThrottleResult) => {
+  res.set('Retry-After', String(throttle.retryAfter));
+  return res.status(429).json({ error: throttle.reason, retryAfter: throttle.retryAfter });
+};
+
 // =============================================================================
 // AUTH ROUTES
 // =============================================================================
@@ -129,21 +200,24 @@ app.post('/api/auth/register', async (req, res) => {
       select: {
         id: true,
         email: true,
+        emailVerifiedAt: true,
         walletId: true,
+        role: true,
         walletAddress: true,
         createdAt: true,
       },
     });
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id },
-      config.jwt.secret,
-      { expiresIn: '7d' }
-    );
+    // Verification mail is best effort; the user can request another one
+    await accountEmailService.sendVerificationEmail(user.id).catch((mailError) => {
+      logger.warn('Could not send verification email:', mailError);
+    });
+
+    // Start a session and issue access + refresh tokens
+    const tokens = await sessionService.createSession(user.id, getSessionContext(req));
 
     res.status(201).json({
-      token,
+      ...tokens,
       user,
     });
   } catch (error) {
@@ -161,12 +235,21 @@ app.post('/api/auth/login', async (req, res) => {
       return res.status(400).json({ error: 'Email and password required' });
     }
 
+    // Per-account and per-IP brute-force protection
+    const throttleKeys = [accountThrottleKey(email), ipThrottleKey(req.ip)];
+    const throttle = await loginThrottleService.check(throttleKeys);
+
+    if (throttle) {
+      return sendThrottled(res, throttle);
+    }
+
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
     });
 
     if (!user) {
+      await loginThrottleService.recordFailure(throttleKeys);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
@@ -174,22 +257,34 @@ app.post('/api/auth/login', async (req, res) => {
     const isValidPassword = await bcrypt.compare(password, user.password);
 
     if (!isValidPassword) {
+      await loginThrottleService.recordFailure(throttleKeys);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id },
-      config.jwt.secret,
-      { expiresIn: '7d' }
-    );
+    await loginThrottleService.recordSuccess(throttleKeys[0]);
+
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    // Second factor: hand back a challenge instead of tokens
+    if (twoFactorService.isEnabled(user)) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: await twoFactorService.createChallenge(user.id),
+      });
+    }
+
+    // Start a session and issue access + refresh tokens
+    const tokens = await sessionService.createSession(user.id, getSessionContext(req));
 
     res.json({
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         walletId: user.walletId,
+        role: user.role,
         walletAddress: user.walletAddress,
         createdAt: user.createdAt,
       },
@@ -209,72 +304,112 @@ app.post('/api/auth/nonce', async (req, res) => {
       return res.status(400).json({ error: 'Address required' });
     }
 
-    // Generate random nonce
-    const nonce = Math.floor(Math.random() * 1000000).toString();
-    
-    // In production, store nonce temporarily (use Redis or database)
-    // For demo, we'll just return it
-    res.json({ nonce });
+    if (!ethers.isAddress(address)) {
+      return res.status(400).json({ error: 'Invalid address' });
+    }
+
+    // Single-use nonce bound to the address, consumed by wallet-login
+    const { nonce, expiresAt } = await siweService.createNonce(address);
+
+    res.json({
+      nonce,
+      expiresAt,
+      domain: config.siwe.domain,
+      chainIds: config.siwe.chainIds,
+    });
   } catch (error) {
     logger.error('Nonce generation error:', error);
     res.status(500).json({ error: 'Failed to generate nonce' });
   }
 });
 
-// Wallet login
+// Wallet login (EIP-4361 Sign-In with Ethereum)
 app.post('/api/auth/wallet-login', async (req, res) => {
   try {
-    const { address, message, signature } = req.body;
+    const { address: claimedAddress, message, signature } = req.body;
 
-    if (!address || !message || !signature) {
-      return res.status(400).json({ error: 'Address, message, and signature required' });
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature required' });
     }
 
-    // Verify signature
+    // Throttle by the claimed signer as well as the IP
+    let claimedSigner: string | undefined;
     try {
-      const recoveredAddress = ethers.verifyMessage(message, signature);
-      
-      if (recoveredAddress.toLowerCase() !== address.toLowerCase()) {
-        return res.status(401).json({ error: 'Invalid signature' });
+      claimedSigner = parseSiweMessage(message).address;
+    } catch (parseError) {
+      claimedSigner = undefined;
+    }
+
+    const throttleKeys = [ipThrottleKey(req.ip), ...(claimedSigner ? [accountThrottleKey(claimedSigner)] : [])];
+    const throttle = await loginThrottleService.check(throttleKeys);
+
+    if (throttle) {
+      return sendThrottled(res, throttle);
+    }
+
+    // Verify the SIWE message, its signature and consume the nonce
+    let address: string;
+    try {
+      address = await siweService.verifyLogin(message, signature);
+    } catch (verifyError) {
+      if (verifyError instanceof HttpError) {
+        await loginThrottleService.recordFailure(throttleKeys);
       }
-    } catch (error) {
-      return res.status(401).json({ error: 'Signature verification failed' });
+      throw verifyError;
+    }
+
+    await loginThrottleService.recordSuccess(accountThrottleKey(address));
+
+    if (claimedAddress && claimedAddress.toLowerCase() !== address) {
+      return res.status(401).json({ error: 'Invalid signature' });
     }
 
     // Find or create user
     let user = await prisma.user.findUnique({
-      where: { walletAddress: address.toLowerCase() },
+      where: { walletAddress: address },
     });
 
     if (!user) {
       // Create new user with wallet address
       user = await prisma.user.create({
         data: {
-          email: `${address.toLowerCase()}@wallet.local`,
+          email: walletPlaceholderEmail(address),
           password: '', // No password for wallet users
-          walletAddress: address.toLowerCase(),
+          walletAddress: address,
         },
       });
     }
 
-    // Generate token
-    const token = jwt.sign(
-      { userId: user.id },
-      config.jwt.secret,
-      { expiresIn: '7d' }
-    );
+    if (user.disabledAt) {
+      return res.status(403).json({ error: 'Account disabled' });
+    }
+
+    // Second factor: hand back a challenge instead of tokens
+    if (twoFactorService.isEnabled(user)) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: await twoFactorService.createChallenge(user.id),
+      });
+    }
+
+    // Start a session and issue access + refresh tokens
+    const tokens = await sessionService.createSession(user.id, getSessionContext(req));
 
     res.json({
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         walletId: user.walletId,
+        role: user.role,
         walletAddress: user.walletAddress,
         createdAt: user.createdAt,
       },
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error('Wallet login error:', error);
     res.status(500).json({ error: 'Wallet login failed' });
   }
@@ -288,7 +423,9 @@ app.get('/api/auth/profile', authenticate, async (req: any, res) => {
       select: {
         id: true,
         email: true,
+        emailVerifiedAt: true,
         walletId: true,
+        role: true,
         walletAddress: true,
         createdAt: true,
       },
@@ -301,6 +438,510 @@ app.get('/api/auth/profile', authenticate, async (req: any, res) => {
   }
 });
 
+// Send (or resend) the email verification link
+app.post('/api/auth/verify-email/send', authenticate, requireSession, async (req: any, res) => {
+  try {
+    await accountEmailService.sendVerificationEmail(req.user.id);
+    res.json({ sent: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error sending verification email:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// Redeem an email verification token
+app.post('/api/auth/verify-email', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Token required' });
+    }
+
+    await accountEmailService.verifyEmail(token);
+    res.json({ verified: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Email verification error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// Request a password reset link (same response whether or not the email exists)
+app.post('/api/auth/password-reset/request', async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || !validateEmail(email)) {
+      return res.status(400).json({ error: 'Invalid email format' });
+    }
+
+    await accountEmailService.requestPasswordReset(email);
+    res.json({ sent: true });
+  } catch (error) {
+    logger.error('Password reset request error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+// Redeem a password reset token; signs out every device
+app.post('/api/auth/password-reset', async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({ error: 'Token and password required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    await accountEmailService.resetPassword(token, password);
+    res.json({ reset: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Password reset error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Two-factor status
+app.get('/api/auth/2fa', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const status = await twoFactorService.getStatus(req.user.id);
+    res.json(status);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error getting two-factor status:', error);
+    res.status(500).json({ error: 'Failed to get two-factor status' });
+  }
+});
+
+// Start TOTP enrollment (returns the secret and an otpauth:// URI for the QR code)
+app.post('/api/auth/2fa/setup', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const setup = await twoFactorService.beginSetup(req.user.id);
+    res.json(setup);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error starting two-factor setup:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a first code; recovery codes are only shown here
+app.post('/api/auth/2fa/enable', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Code required' });
+    }
+
+    const recoveryCodes = await twoFactorService.enable(req.user.id, String(code));
+    res.json({ enabled: true, recoveryCodes });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+// Disable 2FA (needs a fresh TOTP or recovery code)
+app.post('/api/auth/2fa/disable', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Code required' });
+    }
+
+    await twoFactorService.disable(req.user.id, String(code));
+    res.json({ enabled: false });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace the recovery codes
+app.post('/api/auth/2fa/recovery-codes', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Code required' });
+    }
+
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.id, String(code));
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+// Second login step: exchange a challenge token and a code for session tokens
+app.post('/api/auth/2fa/verify', async (req, res) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return res.status(400).json({ error: 'Challenge token and code required' });
+    }
+
+    const userId = await twoFactorService.verifyChallenge(challengeToken, String(code));
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        walletId: true,
+        role: true,
+        walletAddress: true,
+        createdAt: true,
+      },
+    });
+
+    // Start a session and issue access + refresh tokens
+    const tokens = await sessionService.createSession(userId, getSessionContext(req));
+
+    res.json({
+      ...tokens,
+      user,
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Two-factor verification error:', error);
+    res.status(500).json({ error: 'Two-factor verification failed' });
+  }
+});
+
+// Exchange a refresh token for a new token pair
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token required' });
+    }
+
+    const tokens = await sessionService.refresh(refreshToken, getSessionContext(req));
+    res.json(tokens);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
+
+// Logout (current session, or every device)
+app.post('/api/auth/logout', authenticate, requireSession, async (req: any, res) => {
+  try {
+    if (req.body?.allDevices) {
+      const revoked = await sessionService.revokeAllSessions(req.user.id, undefined, 'logout');
+      return res.json({ revoked });
+    }
+
+    await sessionService.revokeSession(req.user.id, req.sessionId, 'logout');
+    res.json({ revoked: 1 });
+  } catch (error) {
+    logger.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// List active sessions
+app.get('/api/auth/sessions', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const sessions = await sessionService.listSessions(req.user.id);
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    logger.error('Error listing sessions:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// Revoke every session except the current one
+app.delete('/api/auth/sessions', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const revoked = await sessionService.revokeAllSessions(req.user.id, req.sessionId);
+    res.json({ revoked });
+  } catch (error) {
+    logger.error('Error revoking sessions:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
+// Revoke a single session
+app.delete('/api/auth/sessions/:sessionId', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const revoked = await sessionService.revokeSession(req.user.id, req.params.sessionId);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.json({ revoked: 1 });
+  } catch (error) {
+    logger.error('Error revoking session:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// List API keys
+app.get('/api/auth/api-keys', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const apiKeys = await apiKeyService.listKeys(req.user.id);
+    res.json({ apiKeys });
+  } catch (error) {
+    logger.error('Error listing API keys:', error);
+    res.status(500).json({ error: 'Failed to list API keys' });
+  }
+});
+
+// Create an API key (the plaintext key is only returned here)
+app.post('/api/auth/api-keys', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { name, scopes, expiresAt } = req.body;
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'Name required' });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope) => API_KEY_SCOPES.includes(scope))) {
+      return res.status(400).json({ error: `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}` });
+    }
+
+    const expiry = expiresAt ? new Date(expiresAt) : undefined;
+    if (expiry && (Number.isNaN(expiry.getTime()) || expiry <= new Date())) {
+      return res.status(400).json({ error: 'expiresAt must be a future date' });
+    }
+
+    const { key, apiKey } = await apiKeyService.createKey(req.user.id, name.trim(), scopes, expiry);
+
+    res.status(201).json({ key, apiKey });
+  } catch (error) {
+    logger.error('Error creating API key:', error);
+    res.status(500).json({ error: 'Failed to create API key' });
+  }
+});
+
+// Revoke an API key
+app.delete('/api/auth/api-keys/:keyId', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const revoked = await apiKeyService.revokeKey(req.user.id, req.params.keyId);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.json({ revoked: true });
+  } catch (error) {
+    logger.error('Error revoking API key:', error);
+    res.status(500).json({ error: 'Failed to revoke API key' });
+  }
+});
+
+// Sign-in methods linked to this account
+app.get('/api/auth/linked-accounts', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const linked = await accountLinkService.getLinkedAccounts(req.user.id);
+    res.json(linked);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error getting linked accounts:', error);
+    res.status(500).json({ error: 'Failed to get linked accounts' });
+  }
+});
+
+// Link a wallet (SIWE message signed with a nonce from /api/auth/nonce)
+app.post('/api/auth/link/wallet', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { message, signature } = req.body;
+
+    if (!message || !signature) {
+      return res.status(400).json({ error: 'Message and signature required' });
+    }
+
+    const linked = await accountLinkService.linkWallet(req.user.id, message, signature);
+    res.json(linked);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error linking wallet:', error);
+    res.status(500).json({ error: 'Failed to link wallet' });
+  }
+});
+
+// Add an email and password to a wallet-only account
+app.post('/api/auth/link/email', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !validateEmail(email)) {
+      return res.status(400).json({ error: 'Invalid email format' });
+    }
+
+    if (!password || password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    const linked = await accountLinkService.linkEmail(req.user.id, email, password);
+
+    await accountEmailService.sendVerificationEmail(req.user.id).catch((mailError) => {
+      logger.warn('Could not send verification email:', mailError);
+    });
+
+    res.json(linked);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error linking email:', error);
+    res.status(500).json({ error: 'Failed to link email' });
+  }
+});
+
+// Unlink the wallet
+app.delete('/api/auth/link/wallet', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const linked = await accountLinkService.unlinkWallet(req.user.id);
+    res.json(linked);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error unlinking wallet:', error);
+    res.status(500).json({ error: 'Failed to unlink wallet' });
+  }
+});
+
+// Unlink the email and password
+app.delete('/api/auth/link/email', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const linked = await accountLinkService.unlinkEmail(req.user.id);
+    res.json(linked);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error unlinking email:', error);
+    res.status(500).json({ error: 'Failed to unlink email' });
+  }
+});
+
+// Merge another account (proven by its credentials or a SIWE signature) into this one
+app.post('/api/auth/merge', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { email, password, code, message, signature } = req.body;
+
+    let proof;
+    if (message && signature) {
+      proof = { message, signature, code: code ? String(code) : undefined };
+    } else if (email && password) {
+      proof = { email, password, code: code ? String(code) : undefined };
+    } else {
+      return res.status(400).json({ error: 'Email and password, or message and signature required' });
+    }
+
+    const result = await accountLinkService.mergeAccounts(req.user.id, proof, req.ip);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Account merge error:', error);
+    res.status(500).json({ error: 'Failed to merge accounts' });
+  }
+});
+
+// Download everything held about the account (?format=json|zip)
+app.get('/api/auth/export', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const format = req.query.format || 'json';
+
+    if (!['json', 'zip'].includes(format)) {
+      return res.status(400).json({ error: 'Format must be json or zip' });
+    }
+
+    const bundle = await accountDataService.exportData(req.user.id);
+
+    if (format === 'zip') {
+      res.attachment('cryptoanalyst-export.zip');
+      return accountDataService.createExportArchive(bundle).pipe(res);
+    }
+
+    res.attachment('cryptoanalyst-export.json');
+    res.json(bundle);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Account export error:', error);
+    res.status(500).json({ error: 'Failed to export account data' });
+  }
+});
+
+// Erase the account (re-authenticate with the password or a SIWE signature)
+app.delete('/api/auth/account', authenticate, requireSession, async (req: any, res) => {
+  try {
+    const { password, code, message, signature } = req.body;
+
+    let proof;
+    if (message && signature) {
+      proof = { message, signature, code: code ? String(code) : undefined };
+    } else if (password) {
+      proof = { password, code: code ? String(code) : undefined };
+    } else {
+      return res.status(400).json({ error: 'Password, or message and signature required' });
+    }
+
+    await accountDataService.deleteAccount(req.user.id, proof, req.ip);
+    res.json({ message: 'Account deleted' });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Account deletion error:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
+  }
+});
+
 // =============================================================================
 // ANALYSIS ROUTES
 // =============================================================================
@@ -350,33 +991,52 @@ app.get('/api/analysis/types', (req, res) => {
       price: config.pricing.defiOpportunities,
       duration: '10-15 minutes',
     },
+    {
+      type: 'COMPARISON',
+      name: 'Asset Comparison',
+      description: 'Side-by-side metrics and a ranked comparison of 2-5 assets',
+      price: config.pricing.comparison,
+      duration: '5-8 minutes',
+    },
   ];
 
   res.json(analysisTypes);
 });
 
 // Create analysis request
-app.post('/api/analysis', authenticate, async (req: any, res) => {
+app.post('/api/analysis', authenticate, requireScope('analysis:create'), async (req: any, res) => {
   try {
-    const { type, parameters } = req.body;
+    const { type, parameters, organizationId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
+    if (config.accountEmails.requireVerifiedEmailForPaidAnalysis && !req.user.emailVerifiedAt) {
+      return res.status(403).json({ error: 'Verify your email before ordering paid analyses' });
+    }
+
     // Get price for analysis type
-    const price = config.pricing[type as keyof typeof config.pricing];
+    const price = analysisPrice(type);
     if (!price) {
       return res.status(400).json({ error: 'Invalid analysis type' });
     }
 
+    // Ordering for an organization shares the analysis and bills the organization
+    if (organizationId) {
+      await organizationService.requireMembership(userId, organizationId);
+    }
+
+    const analysisParameters = prepareAnalysisParameters(type, parameters);
+
     // Create analysis record
     const analysis = await prisma.analysis.create({
       data: {
         userId,
+        organizationId,
         type,
-        parameters,
+        parameters: analysisParameters,
         status: 'PENDING_PAYMENT',
         price,
       },
@@ -386,6 +1046,7 @@ app.post('/api/analysis', authenticate, async (req: any, res) => {
     const payment = await prisma.payment.create({
       data: {
         userId,
+        organizationId,
         amount: price,
         currency: 'USD',
         status: 'PENDING',
@@ -401,25 +1062,31 @@ app.post('/api/analysis', authenticate, async (req: any, res) => {
     res.json({
       analysisId: analysis.id,
       paymentId: payment.id,
+      organizationId: organizationId || null,
       price,
       status: 'pending_payment',
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error('Error creating analysis request:', error);
     res.status(500).json({ error: 'Failed to create analysis request' });
   }
 });
 
 // Get analysis by ID
-app.get('/api/analysis/:analysisId', authenticate, async (req: any, res) => {
+app.get('/api/analysis/:analysisId', authenticate, requireScope('analysis:read'), async (req: any, res) => {
   try {
     const { analysisId } = req.params;
     const userId = req.user?.id;
+    const organizationIds = await organizationService.getOrganizationIds(userId);
 
     const analysis = await prisma.analysis.findFirst({
       where: {
         id: analysisId,
-        userId, // Ensure user can only access their own analyses
+        // Own analyses, plus those shared with the user's organizations
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
       },
       include: {
         payment: true,
@@ -430,15 +1097,16 @@ app.get('/api/analysis/:analysisId', authenticate, async (req: any, res) => {
       return res.status(404).json({ error: 'Analysis not found' });
     }
 
-    res.json(analysis);
+    // Schema-validated fields stored next to the markdown report
+    res.json({ ...analysis, structured: (analysis.result as any)?.structured ?? null });
   } catch (error) {
     logger.error('Error getting analysis:', error);
     res.status(500).json({ error: 'Failed to get analysis' });
   }
 });
 
-// Process analysis (generate results)
-app.post('/api/analysis/:analysisId/process', authenticate, async (req: any, res) => {
+// Process analysis (queue generation; poll the status endpoint for the result)
+app.post('/api/analysis/:analysisId/process', authenticate, requireScope('analysis:create'), async (req: any, res) => {
   try {
     const { analysisId } = req.params;
 
@@ -455,72 +1123,160 @@ app.post('/api/analysis/:analysisId/process', authenticate, async (req: any, res
       return res.status(400).json({ error: 'Payment not completed' });
     }
 
-    // Update status to processing
-    await prisma.analysis.update({
-      where: { id: analysisId },
-      data: { status: 'PROCESSING' },
-    });
-
-    // Generate mock analysis result for demo
-    const mockCryptoData = {
-      symbol: analysis.parameters.symbol || 'BTC',
-      name: 'Bitcoin',
-      price: 43250.75,
-      marketCap: 847250000000,
-      volume24h: 25470000000,
-      change24h: 2.45,
-      change7d: -1.23,
-      change30d: 8.67,
-      rank: 1,
-    };
-
-    const mockMarketData = {
-      totalMarketCap: 1750000000000,
-      totalVolume: 85000000000,
-      btcDominance: 48.5,
-      ethDominance: 17.2,
-      fearGreedIndex: 62,
-    };
-
-    const mockAnalysis = generateMockAnalysis(analysis.type, analysis.parameters);
-    const mockSummary = generateMockSummary(analysis.type);
-
-    // Save completed result
-    const completedAnalysis = await prisma.analysis.update({
-      where: { id: analysisId },
-      data: {
-        status: 'COMPLETED',
-        result: {
-          fullAnalysis: mockAnalysis,
-          executiveSummary: mockSummary,
-          cryptoData: mockCryptoData,
-          marketData: mockMarketData,
-          generatedAt: new Date().toISOString(),
-        },
-        completedAt: new Date(),
+    // Reruns of a finished analysis go through the regeneration pricing policy
+    if (analysis.status === 'COMPLETED') {
+      return res.status(409).json({ error: 'Analysis already completed; use /regenerate to generate a new version' });
+    }
+
+    const job = await analysisGenerationService.enqueue(analysisId);
+
+    res.status(202).json({
+      analysisId,
+      status: 'processing',
+      jobId: job.id,
+      statusUrl: `/api/analysis/${analysisId}/status`,
+    });
+  } catch (error) {
+    logger.error('Error queueing analysis:', error);
+    res.status(500).json({ error: 'Failed to queue analysis' });
+  }
+});
+
+// Poll generation progress
+app.get('/api/analysis/:analysisId/status', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    const { analysisId } = req.params;
+    const userId = req.user?.id;
+    const organizationIds = await organizationService.getOrganizationIds(userId);
+
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
       },
+      select: { id: true, status: true, completedAt: true },
     });
 
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
     res.json({
-      analysisId: completedAnalysis.id,
-      status: 'completed',
-      result: completedAnalysis.result,
+      analysisId: analysis.id,
+      status: analysis.status,
+      completedAt: analysis.completedAt,
+      job: await analysisGenerationService.getStatus(analysisId),
     });
   } catch (error) {
-    logger.error('Error processing analysis:', error);
-    
-    // Update analysis status to failed
-    await prisma.analysis.update({
-      where: { id: req.params.analysisId },
-      data: { status: 'FAILED' },
-    }).catch(() => {});
+    logger.error('Error getting analysis status:', error);
+    res.status(500).json({ error: 'Failed to get analysis status' });
+  }
+});
+
+// Stream generation stages and report text as Server-Sent Events
+app.get('/api/analysis/:analysisId/stream', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    const { analysisId } = req.params;
+    const userId = req.user?.id;
+    const organizationIds = await organizationService.getOrganizationIds(userId);
+
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
+      },
+      select: { id: true },
+    });
+
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
+    await analysisProgressService.streamTo(analysisId, openEventStream(req, res));
+  } catch (error) {
+    logger.error('Error streaming analysis:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream analysis' });
+    } else {
+      res.end();
+    }
+  }
+});
+
+// Download the report as a branded document (?format=md|html|pdf)
+app.get('/api/analysis/:analysisId/export', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    const exported = await reportExportService.exportAnalysis(req.user.id, req.params.analysisId, String(req.query.format || 'pdf'));
+
+    res.type(exported.contentType);
+    res.attachment(exported.filename);
+    res.send(exported.body);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error exporting analysis:', error);
+    res.status(500).json({ error: 'Failed to export analysis' });
+  }
+});
+
+// Regenerate a completed analysis as a new version (free within the policy's window, otherwise paid)
+app.post('/api/analysis/:analysisId/regenerate', authenticate, requireScope('analysis:create'), async (req: any, res) => {
+  try {
+    const regeneration = await analysisVersionService.requestRegeneration(req.user.id, req.params.analysisId);
+    res.status(regeneration.status === 'processing' ? 202 : 200).json(regeneration);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error regenerating analysis:', error);
+    res.status(500).json({ error: 'Failed to regenerate analysis' });
+  }
+});
 
-    res.status(500).json({ error: 'Failed to process analysis' });
+// Versions of an analysis, newest first, with the current regeneration price
+app.get('/api/analysis/:analysisId/versions', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    res.json(await analysisVersionService.listVersions(req.user.id, req.params.analysisId));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error listing analysis versions:', error);
+    res.status(500).json({ error: 'Failed to list analysis versions' });
+  }
+});
+
+// Changed numbers, recommendations and report lines between two versions (?from=&to=, default previous vs latest)
+app.get('/api/analysis/:analysisId/versions/diff', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    const from = req.query.from !== undefined ? parseInt(req.query.from) : undefined;
+    const to = req.query.to !== undefined ? parseInt(req.query.to) : undefined;
+
+    res.json(await analysisVersionService.diffVersions(req.user.id, req.params.analysisId, from, to));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error diffing analysis versions:', error);
+    res.status(500).json({ error: 'Failed to diff analysis versions' });
+  }
+});
+
+app.get('/api/analysis/:analysisId/versions/:version', authenticate, requireScope('analysis:read'), async (req: any, res) => {
+  try {
+    res.json(await analysisVersionService.getVersion(req.user.id, req.params.analysisId, parseInt(req.params.version)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error getting analysis version:', error);
+    res.status(500).json({ error: 'Failed to get analysis version' });
   }
 });
 
 // Get user's analyses
-app.get('/api/analysis/user', authenticate, async (req: any, res) => {
+app.get('/api/analysis/user', authenticate, requireScope('analysis:read'), async (req: any, res) => {
   try {
     const userId = req.user?.id;
     const { page = 1, limit = 10 } = req.query;
@@ -559,7 +1315,7 @@ app.get('/api/analysis/user', authenticate, async (req: any, res) => {
 // =============================================================================
 
 // Get payment status
-app.get('/api/payments/:paymentId/status', authenticate, async (req: any, res) => {
+app.get('/api/payments/:paymentId/status', authenticate, requireScope('payments:read'), async (req: any, res) => {
   try {
     const { paymentId } = req.params;
     
@@ -586,6 +1342,24 @@ app.post('/api/payments/:paymentId/complete', authenticate, async (req: any, res
   try {
     const { paymentId } = req.params;
 
+    const pending = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { userId: true, status: true, purpose: true },
+    });
+
+    if (!pending || pending.userId !== req.user.id) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    // Credit is spent later without review, so it is only granted for a settlement reported by a signed webhook
+    if (pending.purpose === 'CREDIT_TOP_UP') {
+      return res.status(400).json({ error: 'Credit top-ups complete through the payment provider only' });
+    }
+
+    if (pending.status !== 'PENDING') {
+      return res.status(409).json({ error: `Payment is already ${pending.status.toLowerCase()}` });
+    }
+
     // Update payment status
     const payment = await prisma.payment.update({
       where: { id: paymentId },
@@ -596,6 +1370,8 @@ app.post('/api/payments/:paymentId/complete', authenticate, async (req: any, res
       },
     });
 
+    await analysisGenerationService.enqueueForPayment(paymentId);
+
     res.json({ status: 'completed', payment });
   } catch (error) {
     logger.error('Error completing payment:', error);
@@ -604,11 +1380,17 @@ app.post('/api/payments/:paymentId/complete', authenticate, async (req: any, res
 });
 
 // x402pay webhook (for production)
-app.post('/api/payments/webhook', async (req, res) => {
+app.post('/api/payments/webhook', async (req: any, res) => {
   try {
     // Handle x402pay webhook
     const { reference: paymentId, status, transaction_hash } = req.body;
 
+    // Completing a payment queues paid work or grants credit, so only x402pay may report one
+    if (!verifyWebhookSignature(req.rawBody, req.headers['x-signature'] || req.headers['signature'])) {
+      logger.warn(`Rejected unsigned webhook for payment ${paymentId}`);
+      return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
     if (status === 'completed') {
       await prisma.payment.update({
         where: { id: paymentId },
@@ -618,6 +1400,10 @@ app.post('/api/payments/webhook', async (req, res) => {
           completedAt: new Date(),
         },
       });
+
+      // Generation runs in the background job worker; credit top-ups are booked to the balance
+      await analysisGenerationService.enqueueForPayment(paymentId);
+      await creditService.applyTopUp(paymentId);
     }
 
     res.status(200).json({ received: true });
@@ -627,11 +1413,14 @@ app.post('/api/payments/webhook', async (req, res) => {
   }
 });
 
-// Revenue dashboard
-app.get('/api/payments/revenue/dashboard', authenticate, async (req: any, res) => {
+// Revenue dashboard (platform-wide, admins only)
+app.get('/api/payments/revenue/dashboard', authenticate, requireRole('ADMIN'), async (req: any, res) => {
   try {
+    // Credit spent on scheduled runs was already counted when it was topped up
+    const revenuePayments = { status: 'COMPLETED' as const, purpose: { not: 'CREDIT_SPEND' as const } };
+
     const totalRevenue = await prisma.payment.aggregate({
-      where: { status: 'COMPLETED' },
+      where: revenuePayments,
       _sum: { amount: true },
     });
 
@@ -646,8 +1435,15 @@ app.get('/api/payments/revenue/dashboard', authenticate, async (req: any, res) =
       _count: true,
     });
 
+    const revenueByOrganization = await prisma.payment.groupBy({
+      by: ['organizationId'],
+      where: { ...revenuePayments, organizationId: { not: null } },
+      _sum: { amount: true },
+      _count: true,
+    });
+
     const recentPayments = await prisma.payment.findMany({
-      where: { status: 'COMPLETED' },
+      where: revenuePayments,
       orderBy: { completedAt: 'desc' },
       take: 10,
       include: {
@@ -656,11 +1452,16 @@ app.get('/api/payments/revenue/dashboard', authenticate, async (req: any, res) =
       },
     });
 
+    // Model cost against revenue, per analysis type and model
+    const margins = await llmUsageService.getMargins();
+
     res.json({
       totalRevenue: totalRevenue._sum.amount || 0,
       totalAnalyses,
       revenueByType,
+      revenueByOrganization,
       recentPayments,
+      margins,
     });
   } catch (error) {
     logger.error('Error getting revenue dashboard:', error);
@@ -741,106 +1542,42 @@ app.get('/api/wallet/platform/address', async (req, res) => {
 });
 
 // =============================================================================
-// MOCK DATA GENERATORS
+// ADMIN ROUTES
 // =============================================================================
 
-function generateMockAnalysis(type: string, parameters: any): string {
-  const symbol = parameters.symbol || 'BTC';
-  
-  switch (type) {
-    case 'TECHNICAL_ANALYSIS':
-      return `# Technical Analysis: ${symbol}
+app.use('/api/admin', adminRoutes);
 
-## Current Market Structure
-${symbol} is currently trading in a **bullish ascending triangle pattern** with strong support at $42,800 and resistance at $44,200. The technical indicators suggest continued upward momentum.
-
-## Key Technical Indicators
-- **RSI (14)**: 58.4 - Neutral to slightly bullish territory
-- **MACD**: Bullish crossover confirmed on 4H timeframe
-- **Moving Averages**: Price above 20, 50, and 200 EMA
-- **Volume**: Above average volume supporting the move
-
-## Entry/Exit Strategy
-- **Entry Point**: $43,000 - $43,200 (current support zone)
-- **Target 1**: $44,500 (immediate resistance break)
-- **Target 2**: $46,800 (measured move from triangle)
-- **Stop Loss**: $42,500 (below key support)
-
-## Risk Assessment
-The risk/reward ratio is favorable at 1:2.5. Market sentiment remains cautiously optimistic with institutional interest continuing to drive demand.`;
-
-    case 'FUNDAMENTAL_ANALYSIS':
-      return `# Fundamental Analysis: ${symbol}
-
-## Project Overview
-Bitcoin maintains its position as the leading cryptocurrency with strong fundamentals and growing institutional adoption.
-
-## Network Health
-- **Hash Rate**: All-time highs indicating strong network security
-- **Active Addresses**: Steady growth in on-chain activity
-- **Transaction Volume**: Consistent $10B+ daily settlement
-- **Lightning Network**: Expanding rapidly for micro-payments
-
-## Institutional Adoption
-- Multiple ETF approvals driving institutional inflows
-- Corporate treasury adoption continuing
-- Payment processor integration expanding globally
-
-## Macroeconomic Factors
-Current macroeconomic environment supports digital assets as inflation hedge and portfolio diversification tool.
-
-## Long-term Outlook
-Fundamental score: **82/100** - Strong long-term value proposition with increasing mainstream adoption.`;
-
-    case 'BASIC_OVERVIEW':
-      return `# ${symbol} Market Overview
+// =============================================================================
+// ORGANIZATION ROUTES
+// =============================================================================
 
-## Current Status
-${symbol} is showing **positive momentum** with a 2.45% gain in the last 24 hours. Trading volume is above average, indicating healthy market interest.
+app.use('/api/organizations', organizationRoutes);
 
-## Key Metrics
-- **Market Cap Rank**: #1
-- **24h High/Low**: $44,120 / $42,890
-- **7-day Performance**: -1.23% (slight consolidation)
-- **30-day Performance**: +8.67% (strong monthly gains)
+// =============================================================================
+// MARKET DATA ROUTES
+// =============================================================================
 
-## Market Sentiment
-Current market sentiment is **cautiously bullish** with fear & greed index at 62 (Greed territory).
+app.use('/api/market', marketRoutes);
 
-## Short-term Outlook
-Next 1-4 weeks likely to see continued consolidation around current levels with potential for breakout above $44,500.`;
+// =============================================================================
+// SCHEDULE & CREDIT ROUTES
+// =============================================================================
 
-    default:
-      return `# ${type.replace('_', ' ')} Analysis: ${symbol}
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/credits', creditRoutes);
 
-This is a comprehensive analysis generated by our AI system using Amazon Bedrock technology. The analysis incorporates real-time market data, technical indicators, and fundamental metrics to provide actionable insights.
+// =============================================================================
+// SHARED REPORT ROUTES
+// =============================================================================
 
-## Key Findings
-- Market conditions are showing positive indicators
-- Technical analysis suggests potential upward movement
-- Fundamental factors support current valuation
-- Risk factors are manageable at current levels
+app.use('/api/share-links', shareLinkRoutes);
+app.use('/api/shared', sharedRoutes);
 
-## Recommendations
-Based on current market conditions and analysis parameters, we recommend a measured approach to position sizing with appropriate risk management strategies.`;
-  }
-}
+// =============================================================================
+// BACKTEST ROUTES
+// =============================================================================
 
-function generateMockSummary(type: string): string {
-  switch (type) {
-    case 'TECHNICAL_ANALYSIS':
-      return 'Technical indicators show bullish momentum with RSI at 58.4 and MACD confirming upward trend. Entry recommended at $43,000-$43,200 with targets at $44,500 and $46,800. Risk/reward ratio of 1:2.5 makes this an attractive setup for medium-term traders.';
-    
-    case 'FUNDAMENTAL_ANALYSIS':
-      return 'Strong fundamental score of 82/100 driven by increasing institutional adoption, network security at all-time highs, and expanding Lightning Network. Long-term outlook remains highly positive with growing mainstream acceptance and macroeconomic tailwinds.';
-    
-    case 'BASIC_OVERVIEW':
-      return 'Currently showing positive momentum with 2.45% daily gains and healthy trading volume. Market sentiment is cautiously bullish (F&G: 62). Short-term outlook suggests consolidation with potential breakout above $44,500 in the next 1-4 weeks.';
-    
-    default:
-      return 'Analysis complete with positive indicators across multiple timeframes. Current market conditions support measured position sizing with appropriate risk management. Key levels and targets have been identified for optimal entry and exit strategies.';
-  }
-}
+app.use('/api/backtests', backtestRoutes);
 
 // =============================================================================
 // ERROR HANDLING
@@ -1,44 +1,65 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { BedrockService } from '../services/bedrockService.js';
-import { DataService } from '../services/dataService.js';
 import { PaymentService } from '../services/paymentService.js';
-import { config } from '../utils/config.js';
+import { AnalysisGenerationService } from '../services/analysisGenerationService.js';
+import { AnalysisProgressService } from '../services/analysisProgressService.js';
+import { OrganizationService } from '../services/organizationService.js';
+import { prepareAnalysisParameters } from '../services/analysisParameters.js';
+import { ReportExportService } from '../services/reportExportService.js';
+import { AnalysisVersionService } from '../services/analysisVersionService.js';
+import { analysisPrice, config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { openEventStream } from '../utils/sse.js';
 
 const prisma = new PrismaClient();
-const bedrockService = new BedrockService();
-const dataService = new DataService();
 const paymentService = new PaymentService();
+const analysisGenerationService = new AnalysisGenerationService();
+const analysisProgressService = new AnalysisProgressService();
+const organizationService = new OrganizationService();
+const reportExportService = new ReportExportService();
+const analysisVersionService = new AnalysisVersionService();
 
 export const createAnalysisRequest = async (req: Request, res: Response) => {
   try {
-    const { type, parameters } = req.body;
+    const { type, parameters, organizationId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
+    if (config.accountEmails.requireVerifiedEmailForPaidAnalysis && !req.user?.emailVerifiedAt) {
+      return res.status(403).json({ error: 'Verify your email before ordering paid analyses' });
+    }
+
     // Get price for analysis type
-    const price = config.pricing[type as keyof typeof config.pricing];
+    const price = analysisPrice(type);
     if (!price) {
       return res.status(400).json({ error: 'Invalid analysis type' });
     }
 
+    // Ordering for an organization shares the analysis and bills the organization
+    if (organizationId) {
+      await organizationService.requireMembership(userId, organizationId);
+    }
+
+    const analysisParameters = prepareAnalysisParameters(type, parameters);
+
     // Create analysis record
     const analysis = await prisma.analysis.create({
       data: {
         userId,
+        organizationId,
         type,
-        parameters,
+        parameters: analysisParameters,
         status: 'PENDING_PAYMENT',
         price,
       },
     });
 
     // Create payment
-    const paymentId = await paymentService.createPayment(userId, type, price);
+    const paymentId = await paymentService.createPayment(userId, type, price, organizationId);
     
     // Link payment to analysis
     await prisma.analysis.update({
@@ -49,10 +70,14 @@ export const createAnalysisRequest = async (req: Request, res: Response) => {
     res.json({
       analysisId: analysis.id,
       paymentId,
+      organizationId: organizationId || null,
       price,
       status: 'pending_payment',
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     logger.error('Error creating analysis request:', error);
     res.status(500).json({ error: 'Failed to create analysis request' });
   }
@@ -75,66 +100,82 @@ export const processAnalysis = async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Payment not completed' });
     }
 
-    if (analysis.status !== 'PROCESSING') {
-      await prisma.analysis.update({
-        where: { id: analysisId },
-        data: { status: 'PROCESSING' },
-      });
+    // Reruns of a finished analysis go through the regeneration pricing policy
+    if (analysis.status === 'COMPLETED') {
+      return res.status(409).json({ error: 'Analysis already completed; use /regenerate to generate a new version' });
     }
 
-    // Get crypto and market data
-    const symbol = analysis.parameters.symbol || 'BTC';
-    const [cryptoData, marketData] = await Promise.all([
-      dataService.getCryptoData(symbol),
-      dataService.getMarketData(),
-    ]);
-
-    // Add Fear & Greed index
-    const fearGreedIndex = await dataService.getFearGreedIndex();
-    const enhancedMarketData = { ...marketData, fearGreedIndex };
+    // Generation runs in the background job worker; clients poll the status endpoint
+    const job = await analysisGenerationService.enqueue(analysisId);
 
-    // Generate analysis using Bedrock
-    const analysisResult = await bedrockService.generateAnalysis(
-      analysis.type,
-      cryptoData,
-      enhancedMarketData,
-      analysis.parameters
-    );
+    res.status(202).json({
+      analysisId,
+      status: 'processing',
+      jobId: job.id,
+      statusUrl: `/api/analysis/${analysisId}/status`,
+    });
+  } catch (error) {
+    logger.error('Error queueing analysis:', error);
+    res.status(500).json({ error: 'Failed to queue analysis' });
+  }
+};
 
-    // Generate executive summary
-    const executiveSummary = await bedrockService.generateExecutiveSummary(analysisResult);
+export const getAnalysisStatus = async (req: Request, res: Response) => {
+  try {
+    const { analysisId } = req.params;
+    const userId = req.user?.id;
+    const organizationIds = userId ? await organizationService.getOrganizationIds(userId) : [];
 
-    // Save result
-    const completedAnalysis = await prisma.analysis.update({
-      where: { id: analysisId },
-      data: {
-        status: 'COMPLETED',
-        result: {
-          fullAnalysis: analysisResult,
-          executiveSummary,
-          cryptoData,
-          marketData: enhancedMarketData,
-          generatedAt: new Date().toISOString(),
-        },
-        completedAt: new Date(),
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
       },
+      select: { id: true, status: true, completedAt: true },
     });
 
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
     res.json({
-      analysisId: completedAnalysis.id,
-      status: 'completed',
-      result: completedAnalysis.result,
+      analysisId: analysis.id,
+      status: analysis.status,
+      completedAt: analysis.completedAt,
+      job: await analysisGenerationService.getStatus(analysisId),
     });
   } catch (error) {
-    logger.error('Error processing analysis:', error);
-    
-    // Update analysis status to failed
-    await prisma.analysis.update({
-      where: { id: req.params.analysisId },
-      data: { status: 'FAILED' },
+    logger.error('Error getting analysis status:', error);
+    res.status(500).json({ error: 'Failed to get analysis status' });
+  }
+};
+
+export const streamAnalysis = async (req: Request, res: Response) => {
+  try {
+    const { analysisId } = req.params;
+    const userId = req.user?.id;
+    const organizationIds = userId ? await organizationService.getOrganizationIds(userId) : [];
+
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
+      },
+      select: { id: true },
     });
 
-    res.status(500).json({ error: 'Failed to process analysis' });
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
+    await analysisProgressService.streamTo(analysisId, openEventStream(req, res));
+  } catch (error) {
+    logger.error('Error streaming analysis:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ error: 'Failed to stream analysis' });
+    } else {
+      res.end();
+    }
   }
 };
 
@@ -142,11 +183,13 @@ export const getAnalysis = async (req: Request, res: Response) => {
   try {
     const { analysisId } = req.params;
     const userId = req.user?.id;
+    const organizationIds = userId ? await organizationService.getOrganizationIds(userId) : [];
 
     const analysis = await prisma.analysis.findFirst({
       where: {
         id: analysisId,
-        userId, // Ensure user can only access their own analyses
+        // Own analyses, plus those shared with the user's organizations
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
       },
       include: {
         payment: true,
@@ -157,13 +200,84 @@ export const getAnalysis = async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Analysis not found' });
     }
 
-    res.json(analysis);
+    // Schema-validated fields stored next to the markdown report
+    res.json({ ...analysis, structured: (analysis.result as any)?.structured ?? null });
   } catch (error) {
     logger.error('Error getting analysis:', error);
     res.status(500).json({ error: 'Failed to get analysis' });
   }
 };
 
+// Completed report as a branded Markdown, HTML or PDF download
+export const exportAnalysis = async (req: Request, res: Response) => {
+  try {
+    const exported = await reportExportService.exportAnalysis(req.user!.id, req.params.analysisId, String(req.query.format || 'pdf'));
+
+    res.type(exported.contentType);
+    res.attachment(exported.filename);
+    res.send(exported.body);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error exporting analysis:', error);
+    res.status(500).json({ error: 'Failed to export analysis' });
+  }
+};
+
+// Regenerate a completed analysis as a new version (free within the policy's window, otherwise paid)
+export const regenerateAnalysis = async (req: Request, res: Response) => {
+  try {
+    const regeneration = await analysisVersionService.requestRegeneration(req.user!.id, req.params.analysisId);
+    res.status(regeneration.status === 'processing' ? 202 : 200).json(regeneration);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error regenerating analysis:', error);
+    res.status(500).json({ error: 'Failed to regenerate analysis' });
+  }
+};
+
+export const getAnalysisVersions = async (req: Request, res: Response) => {
+  try {
+    res.json(await analysisVersionService.listVersions(req.user!.id, req.params.analysisId));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error listing analysis versions:', error);
+    res.status(500).json({ error: 'Failed to list analysis versions' });
+  }
+};
+
+export const diffAnalysisVersions = async (req: Request, res: Response) => {
+  try {
+    const from = req.query.from !== undefined ? parseInt(String(req.query.from)) : undefined;
+    const to = req.query.to !== undefined ? parseInt(String(req.query.to)) : undefined;
+
+    res.json(await analysisVersionService.diffVersions(req.user!.id, req.params.analysisId, from, to));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error diffing analysis versions:', error);
+    res.status(500).json({ error: 'Failed to diff analysis versions' });
+  }
+};
+
+export const getAnalysisVersion = async (req: Request, res: Response) => {
+  try {
+    res.json(await analysisVersionService.getVersion(req.user!.id, req.params.analysisId, parseInt(req.params.version)));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    logger.error('Error getting analysis version:', error);
+    res.status(500).json({ error: 'Failed to get analysis version' });
+  }
+};
+
 export const getUserAnalyses = async (req: Request, res: Response) => {
   try {
     const userId = req.user?.id;
@@ -243,6 +357,13 @@ export const getAnalysisTypes = async (req: Request, res: Response) => {
         price: config.pricing.defiOpportunities,
         duration: '10-15 minutes',
       },
+      {
+        type: 'COMPARISON',
+        name: 'Asset Comparison',
+        description: 'Side-by-side metrics and a ranked comparison of 2-5 assets',
+        price: config.pricing.comparison,
+        duration: '5-8 minutes',
+      },
     ];
 
     res.json(analysisTypes);
@@ -0,0 +1,119 @@
+import express from 'express';
+import { authenticate, requireRole, requireSession } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { AdminService } from '../services/adminService.js';
+import { JobQueueService } from '../services/jobQueueService.js';
+import { PromptTemplateService } from '../services/promptTemplateService.js';
+
+const router = express.Router();
+const adminService = new AdminService();
+const jobQueueService = new JobQueueService();
+const promptTemplateService = new PromptTemplateService();
+
+const getPagination = (query: any) => ({
+  page: Math.max(1, Number(query.page) || 1),
+  limit: Math.min(100, Math.max(1, Number(query.limit) || 20)),
+});
+
+// Every admin route needs an interactive session
+router.use(authenticate, requireSession);
+
+// List and search users
+router.get('/users', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const { search, role } = req.query;
+
+  if (role && !['USER', 'ANALYST', 'ADMIN'].includes(role)) {
+    return res.status(400).json({ error: 'Invalid role filter' });
+  }
+
+  const result = await adminService.listUsers({ search, role }, getPagination(req.query));
+  res.json(result);
+}));
+
+// Change a user's role
+router.patch('/users/:userId/role', requireRole('ADMIN'), validateRequest(schemas.updateRole), asyncHandler(async (req: any, res: any) => {
+  const user = await adminService.updateRole(req.user.id, req.params.userId, req.body.role);
+  res.json(user);
+}));
+
+// Disable an account and revoke its sessions
+router.post('/users/:userId/disable', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const user = await adminService.disableUser(req.user.id, req.params.userId);
+  res.json(user);
+}));
+
+// Re-enable a disabled account
+router.post('/users/:userId/enable', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const user = await adminService.enableUser(req.user.id, req.params.userId);
+  res.json(user);
+}));
+
+// Clear a brute-force login lockout
+router.post('/users/:userId/unlock', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const result = await adminService.unlockLogin(req.user.id, req.params.userId);
+  res.json(result);
+}));
+
+// Failed analyses (analysts help triage these)
+router.get('/analyses/failed', requireRole('ADMIN', 'ANALYST'), asyncHandler(async (req: any, res: any) => {
+  const result = await adminService.listFailedAnalyses(getPagination(req.query));
+  res.json(result);
+}));
+
+// Payments that have not completed yet
+router.get('/payments/pending', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const result = await adminService.listPendingPayments(getPagination(req.query));
+  res.json(result);
+}));
+
+// Background jobs, filterable by status (e.g. DEAD) and type
+router.get('/jobs', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const { status, type } = req.query;
+
+  if (status && !['PENDING', 'RUNNING', 'COMPLETED', 'DEAD'].includes(status)) {
+    return res.status(400).json({ error: 'Invalid status filter' });
+  }
+
+  const { page, limit } = getPagination(req.query);
+  const result = await jobQueueService.listJobs({ status, type }, page, limit);
+  res.json(result);
+}));
+
+// A job with its attempt history
+router.get('/jobs/:jobId', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const job = await jobQueueService.getJob(req.params.jobId);
+  res.json(job);
+}));
+
+// Requeue a dead job
+router.post('/jobs/:jobId/retry', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const job = await jobQueueService.retryDeadJob(req.params.jobId);
+  res.json(job);
+}));
+
+// Prompt template versions per key, with the built-in templates and available variables
+router.get('/prompt-templates', requireRole('ADMIN'), asyncHandler(async (req: any, res: any) => {
+  const result = await promptTemplateService.listTemplates(req.query.key);
+  res.json(result);
+}));
+
+// Save a new template version
+router.post('/prompt-templates', requireRole('ADMIN'), validateRequest(schemas.createPromptTemplate), asyncHandler(async (req: any, res: any) => {
+  const template = await promptTemplateService.createTemplate(req.user.id, req.body);
+  res.status(201).json(template);
+}));
+
+// Render a stored or draft template against sample data
+router.post('/prompt-templates/preview', requireRole('ADMIN'), validateRequest(schemas.previewPromptTemplate), asyncHandler(async (req: any, res: any) => {
+  const preview = await promptTemplateService.preview(req.body);
+  res.json(preview);
+}));
+
+// Activate or deactivate a version, or change its A/B weight
+router.patch('/prompt-templates/:templateId', requireRole('ADMIN'), validateRequest(schemas.updatePromptTemplate), asyncHandler(async (req: any, res: any) => {
+  const template = await promptTemplateService.updateTemplate(req.user.id, req.params.templateId, req.body);
+  res.json(template);
+}));
+
+export default router;
\ No newline at end of file
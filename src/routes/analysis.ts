@@ -1,10 +1,17 @@
 import express from 'express';
-import { authenticate } from '../middleware/auth.js';
-import { validateRequest, schemas } from '../middleware/validation.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { authenticate, requireScope } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
 import {
   createAnalysisRequest,
   processAnalysis,
+  getAnalysisStatus,
+  streamAnalysis,
+  exportAnalysis,
+  regenerateAnalysis,
+  getAnalysisVersions,
+  diffAnalysisVersions,
+  getAnalysisVersion,
   getAnalysis,
   getUserAnalyses,
   getAnalysisTypes,
@@ -16,15 +23,32 @@ const router = express.Router();
 router.get('/types', getAnalysisTypes);
 
 // Create analysis request
-router.post('/', authenticate, validateRequest(schemas.createAnalysis), asyncHandler(createAnalysisRequest));
+router.post('/', authenticate, requireScope('analysis:create'), validateRequest(schemas.createAnalysis), asyncHandler(createAnalysisRequest));
 
 // Get analysis by ID
-router.get('/:analysisId', authenticate, asyncHandler(getAnalysis));
+router.get('/:analysisId', authenticate, requireScope('analysis:read'), asyncHandler(getAnalysis));
 
-// Process analysis (start generation)
-router.post('/:analysisId/process', authenticate, asyncHandler(processAnalysis));
+// Process analysis (queue generation)
+router.post('/:analysisId/process', authenticate, requireScope('analysis:create'), asyncHandler(processAnalysis));
+
+// Poll generation progress
+router.get('/:analysisId/status', authenticate, requireScope('analysis:read'), asyncHandler(getAnalysisStatus));
+
+// Stream generation stages and report text (Server-Sent Events)
+router.get('/:analysisId/stream', authenticate, requireScope('analysis:read'), asyncHandler(streamAnalysis));
+
+// Download the report (?format=md|html|pdf)
+router.get('/:analysisId/export', authenticate, requireScope('analysis:read'), asyncHandler(exportAnalysis));
+
+// Regenerate as a new version, free or paid per the regeneration policy
+router.post('/:analysisId/regenerate', authenticate, requireScope('analysis:create'), asyncHandler(regenerateAnalysis));
+
+// Version history and diffs between versions
+router.get('/:analysisId/versions', authenticate, requireScope('analysis:read'), asyncHandler(getAnalysisVersions));
+router.get('/:analysisId/versions/diff', authenticate, requireScope('analysis:read'), asyncHandler(diffAnalysisVersions));
+router.get('/:analysisId/versions/:version', authenticate, requireScope('analysis:read'), asyncHandler(getAnalysisVersion));
 
 // Get user's analyses
-router.get('/user', authenticate, asyncHandler(getUserAnalyses));
+router.get('/user', authenticate, requireScope('analysis:read'), asyncHandler(getUserAnalyses));
 
 export default router;
\ No newline at end of file
@@ -1,14 +1,27 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
-import { config } from '../utils/config.js';
-import { validateRequest, schemas } from '../middleware/validation.js';
-import { authenticate } from '../middleware/auth.js';
-import { asyncHandler } from '../middleware/errorHandler.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { authenticate, requireSession } from '../utils/middleware/auth.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { SessionService, getSessionContext } from '../services/sessionService.js';
+import { ApiKeyService } from '../services/apiKeyService.js';
+import { AccountLinkService } from '../services/accountLinkService.js';
+import { AccountEmailService } from '../services/accountEmailService.js';
+import { TwoFactorService } from '../services/twoFactorService.js';
+import { LoginThrottleService, accountThrottleKey, ipThrottleKey } from '../services/loginThrottleService.js';
+import { AccountDataService } from '../services/accountDataService.js';
+import { logger } from '../utils/logger.js';
 
 const router = express.Router();
 const prisma = new PrismaClient();
+const sessionService = new SessionService();
+const apiKeyService = new ApiKeyService();
+const accountLinkService = new AccountLinkService();
+const accountEmailService = new AccountEmailService();
+const twoFactorService = new TwoFactorService();
+const loginThrottleService = new LoginThrottleService();
+const accountDataService = new AccountDataService();
 
 // Register
 router.post('/register', validateRequest(schemas.register), asyncHandler(async (req: any, res: any) => {
@@ -35,20 +48,23 @@ router.post('/register', validateRequest(schemas.register), asyncHandler(async (
     select: {
       id: true,
       email: true,
+      emailVerifiedAt: true,
       walletId: true,
+      role: true,
       createdAt: true,
     },
   });
 
-  // Generate token
-  const token = jwt.sign(
-    { userId: user.id },
-    config.jwt.secret,
-    { expiresIn: '7d' }
-  );
+  // Verification mail is best effort; the user can request another one
+  await accountEmailService.sendVerificationEmail(user.id).catch((mailError) => {
+    logger.warn('Could not send verification email:', mailError);
+  });
+
+  // Start a session and issue access + refresh tokens
+  const tokens = await sessionService.createSession(user.id, getSessionContext(req));
 
   res.status(201).json({
-    token,
+    ...tokens,
     user,
   });
 }));
@@ -57,12 +73,22 @@ router.post('/register', validateRequest(schemas.register), asyncHandler(async (
 router.post('/login', validateRequest(schemas.login), asyncHandler(async (req: any, res: any) => {
   const { email, password } = req.body;
 
+  // Per-account and per-IP brute-force protection
+  const throttleKeys = [accountThrottleKey(email), ipThrottleKey(req.ip)];
+  const throttle = await loginThrottleService.check(throttleKeys);
+
+  if (throttle) {
+    res.set('Retry-After', String(throttle.retryAfter));
+    return res.status(429).json({ error: throttle.reason, retryAfter: throttle.retryAfter });
+  }
+
   // Find user
   const user = await prisma.user.findUnique({
     where: { email },
   });
 
   if (!user) {
+    await loginThrottleService.recordFailure(throttleKeys);
     return res.status(401).json({ error: 'Invalid credentials' });
   }
 
@@ -70,22 +96,34 @@ router.post('/login', validateRequest(schemas.login), asyncHandler(async (req: a
   const isValidPassword = await bcrypt.compare(password, user.password);
 
   if (!isValidPassword) {
+    await loginThrottleService.recordFailure(throttleKeys);
     return res.status(401).json({ error: 'Invalid credentials' });
   }
 
-  // Generate token
-  const token = jwt.sign(
-    { userId: user.id },
-    config.jwt.secret,
-    { expiresIn: '7d' }
-  );
+  await loginThrottleService.recordSuccess(throttleKeys[0]);
+
+  if (user.disabledAt) {
+    return res.status(403).json({ error: 'Account disabled' });
+  }
+
+  // Second factor: hand back a challenge instead of tokens
+  if (twoFactorService.isEnabled(user)) {
+    return res.json({
+      twoFactorRequired: true,
+      challengeToken: await twoFactorService.createChallenge(user.id),
+    });
+  }
+
+  // Start a session and issue access + refresh tokens
+  const tokens = await sessionService.createSession(user.id, getSessionContext(req));
 
   res.json({
-    token,
+    ...tokens,
     user: {
       id: user.id,
       email: user.email,
       walletId: user.walletId,
+      role: user.role,
       createdAt: user.createdAt,
     },
   });
@@ -98,7 +136,9 @@ router.get('/profile', authenticate, asyncHandler(async (req: any, res: any) =>
     select: {
       id: true,
       email: true,
+      emailVerifiedAt: true,
       walletId: true,
+      role: true,
       createdAt: true,
     },
   });
@@ -106,4 +146,225 @@ router.get('/profile', authenticate, asyncHandler(async (req: any, res: any) =>
   res.json(user);
 }));
 
+// Send (or resend) the email verification link
+router.post('/verify-email/send', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  await accountEmailService.sendVerificationEmail(req.user.id);
+  res.json({ sent: true });
+}));
+
+// Redeem an email verification token
+router.post('/verify-email', validateRequest(schemas.emailToken), asyncHandler(async (req: any, res: any) => {
+  await accountEmailService.verifyEmail(req.body.token);
+  res.json({ verified: true });
+}));
+
+// Request a password reset link (same response whether or not the email exists)
+router.post('/password-reset/request', validateRequest(schemas.passwordResetRequest), asyncHandler(async (req: any, res: any) => {
+  await accountEmailService.requestPasswordReset(req.body.email);
+  res.json({ sent: true });
+}));
+
+// Redeem a password reset token; signs out every device
+router.post('/password-reset', validateRequest(schemas.passwordReset), asyncHandler(async (req: any, res: any) => {
+  await accountEmailService.resetPassword(req.body.token, req.body.password);
+  res.json({ reset: true });
+}));
+
+// Two-factor status
+router.get('/2fa', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const status = await twoFactorService.getStatus(req.user.id);
+  res.json(status);
+}));
+
+// Start TOTP enrollment (returns the secret and an otpauth:// URI for the QR code)
+router.post('/2fa/setup', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const setup = await twoFactorService.beginSetup(req.user.id);
+  res.json(setup);
+}));
+
+// Confirm enrollment with a first code; recovery codes are only shown here
+router.post('/2fa/enable', authenticate, requireSession, validateRequest(schemas.twoFactorCode), asyncHandler(async (req: any, res: any) => {
+  const recoveryCodes = await twoFactorService.enable(req.user.id, req.body.code);
+  res.json({ enabled: true, recoveryCodes });
+}));
+
+// Disable 2FA (needs a fresh TOTP or recovery code)
+router.post('/2fa/disable', authenticate, requireSession, validateRequest(schemas.twoFactorCode), asyncHandler(async (req: any, res: any) => {
+  await twoFactorService.disable(req.user.id, req.body.code);
+  res.json({ enabled: false });
+}));
+
+// Replace the recovery codes
+router.post('/2fa/recovery-codes', authenticate, requireSession, validateRequest(schemas.twoFactorCode), asyncHandler(async (req: any, res: any) => {
+  const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.id, req.body.code);
+  res.json({ recoveryCodes });
+}));
+
+// Second login step: exchange a challenge token and a code for session tokens
+router.post('/2fa/verify', validateRequest(schemas.twoFactorChallenge), asyncHandler(async (req: any, res: any) => {
+  const userId = await twoFactorService.verifyChallenge(req.body.challengeToken, req.body.code);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      email: true,
+      walletId: true,
+      role: true,
+      createdAt: true,
+    },
+  });
+
+  // Start a session and issue access + refresh tokens
+  const tokens = await sessionService.createSession(userId, getSessionContext(req));
+
+  res.json({
+    ...tokens,
+    user,
+  });
+}));
+
+// Exchange a refresh token for a new token pair
+router.post('/refresh', validateRequest(schemas.refreshToken), asyncHandler(async (req: any, res: any) => {
+  const tokens = await sessionService.refresh(req.body.refreshToken, getSessionContext(req));
+  res.json(tokens);
+}));
+
+// Logout (current session, or every device)
+router.post('/logout', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  if (req.body?.allDevices) {
+    const revoked = await sessionService.revokeAllSessions(req.user.id, undefined, 'logout');
+    return res.json({ revoked });
+  }
+
+  await sessionService.revokeSession(req.user.id, req.sessionId, 'logout');
+  res.json({ revoked: 1 });
+}));
+
+// List active sessions
+router.get('/sessions', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const sessions = await sessionService.listSessions(req.user.id);
+
+  res.json({
+    sessions: sessions.map((session) => ({
+      ...session,
+      current: session.id === req.sessionId,
+    })),
+  });
+}));
+
+// Revoke every session except the current one
+router.delete('/sessions', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const revoked = await sessionService.revokeAllSessions(req.user.id, req.sessionId);
+  res.json({ revoked });
+}));
+
+// Revoke a single session
+router.delete('/sessions/:sessionId', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const revoked = await sessionService.revokeSession(req.user.id, req.params.sessionId);
+
+  if (!revoked) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  res.json({ revoked: 1 });
+}));
+
+// List API keys
+router.get('/api-keys', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const apiKeys = await apiKeyService.listKeys(req.user.id);
+  res.json({ apiKeys });
+}));
+
+// Create an API key (the plaintext key is only returned here)
+router.post('/api-keys', authenticate, requireSession, validateRequest(schemas.createApiKey), asyncHandler(async (req: any, res: any) => {
+  const { name, scopes, expiresAt } = req.body;
+
+  const { key, apiKey } = await apiKeyService.createKey(
+    req.user.id,
+    name,
+    scopes,
+    expiresAt ? new Date(expiresAt) : undefined
+  );
+
+  res.status(201).json({ key, apiKey });
+}));
+
+// Revoke an API key
+router.delete('/api-keys/:keyId', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const revoked = await apiKeyService.revokeKey(req.user.id, req.params.keyId);
+
+  if (!revoked) {
+    return res.status(404).json({ error: 'API key not found' });
+  }
+
+  res.json({ revoked: true });
+}));
+
+// Sign-in methods linked to this account
+router.get('/linked-accounts', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const linked = await accountLinkService.getLinkedAccounts(req.user.id);
+  res.json(linked);
+}));
+
+// Link a wallet (SIWE message signed with a nonce from /nonce)
+router.post('/link/wallet', authenticate, requireSession, validateRequest(schemas.linkWallet), asyncHandler(async (req: any, res: any) => {
+  const linked = await accountLinkService.linkWallet(req.user.id, req.body.message, req.body.signature);
+  res.json(linked);
+}));
+
+// Add an email and password to a wallet-only account
+router.post('/link/email', authenticate, requireSession, validateRequest(schemas.linkEmail), asyncHandler(async (req: any, res: any) => {
+  const linked = await accountLinkService.linkEmail(req.user.id, req.body.email, req.body.password);
+
+  await accountEmailService.sendVerificationEmail(req.user.id).catch((mailError) => {
+    logger.warn('Could not send verification email:', mailError);
+  });
+
+  res.json(linked);
+}));
+
+// Unlink the wallet
+router.delete('/link/wallet', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const linked = await accountLinkService.unlinkWallet(req.user.id);
+  res.json(linked);
+}));
+
+// Unlink the email and password
+router.delete('/link/email', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const linked = await accountLinkService.unlinkEmail(req.user.id);
+  res.json(linked);
+}));
+
+// Merge another account (proven by its credentials or a SIWE signature) into this one
+router.post('/merge', authenticate, requireSession, validateRequest(schemas.mergeAccount), asyncHandler(async (req: any, res: any) => {
+  const result = await accountLinkService.mergeAccounts(req.user.id, req.body, req.ip);
+  res.json(result);
+}));
+
+// Download everything held about the account (?format=json|zip)
+router.get('/export', authenticate, requireSession, asyncHandler(async (req: any, res: any) => {
+  const format = req.query.format || 'json';
+
+  if (!['json', 'zip'].includes(format)) {
+    return res.status(400).json({ error: 'Format must be json or zip' });
+  }
+
+  const bundle = await accountDataService.exportData(req.user.id);
+
+  if (format === 'zip') {
+    res.attachment('cryptoanalyst-export.zip');
+    return accountDataService.createExportArchive(bundle).pipe(res);
+  }
+
+  res.attachment('cryptoanalyst-export.json');
+  res.json(bundle);
+}));
+
+// Erase the account (re-authenticate with the password or a SIWE signature)
+router.delete('/account', authenticate, requireSession, validateRequest(schemas.deleteAccount), asyncHandler(async (req: any, res: any) => {
+  await accountDataService.deleteAccount(req.user.id, req.body, req.ip);
+  res.json({ message: 'Account deleted' });
+}));
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import express from 'express';
+import { authenticate, requireScope } from '../utils/middleware/auth.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { BACKTESTED_TYPES } from '../utils/backtest.js';
+import { BacktestService } from '../services/backtestService.js';
+
+const router = express.Router();
+const backtestService = new BacktestService();
+
+router.use(authenticate, requireScope('analysis:read'));
+
+// Optional ISO date; undefined when absent, null when unparseable
+const parseDate = (value: any): Date | null | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Target and stop hit rates of past calls per analysis type and model, by when the calls were made
+router.get('/scoreboard', asyncHandler(async (req: any, res: any) => {
+  const { symbol, type } = req.query;
+  const from = parseDate(req.query.from);
+  const to = parseDate(req.query.to);
+
+  if (symbol && !/^[A-Za-z0-9]{1,10}$/.test(symbol)) {
+    return res.status(400).json({ error: 'Invalid symbol' });
+  }
+
+  if (type && !(BACKTESTED_TYPES as readonly string[]).includes(type)) {
+    return res.status(400).json({ error: `Invalid type filter; backtested types are ${BACKTESTED_TYPES.join(', ')}` });
+  }
+
+  if (from === null || to === null) {
+    return res.status(400).json({ error: '`from` and `to` must be ISO dates' });
+  }
+
+  const scoreboard = await backtestService.getScoreboard({ symbol, analysisType: type, from, to });
+  res.json(scoreboard);
+}));
+
+export default router;
\ No newline at end of file
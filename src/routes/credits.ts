@@ -0,0 +1,26 @@
+import express from 'express';
+import { authenticate, requireScope, requireSession } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { CreditService } from '../services/creditService.js';
+
+const router = express.Router();
+const creditService = new CreditService();
+
+router.use(authenticate);
+
+// Balance and ledger, newest first
+router.get('/', requireScope('payments:read'), asyncHandler(async (req: any, res: any) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 10));
+  const result = await creditService.getBalance(req.user.id, page, limit);
+  res.json(result);
+}));
+
+// Buying credit needs an interactive session; the balance is credited when the payment completes
+router.post('/top-up', requireSession, validateRequest(schemas.createTopUp), asyncHandler(async (req: any, res: any) => {
+  const topUp = await creditService.createTopUp(req.user.id, req.body.amount);
+  res.status(201).json(topUp);
+}));
+
+export default router;
\ No newline at end of file
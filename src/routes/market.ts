@@ -0,0 +1,23 @@
+import express from 'express';
+import { authenticate, requireScope } from '../utils/middleware/auth.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { IndicatorService } from '../services/indicatorService.js';
+
+const router = express.Router();
+const indicatorService = new IndicatorService();
+
+router.use(authenticate, requireScope('analysis:read'));
+
+// Indicators computed from daily candles of the symbol's price history
+router.get('/:symbol/indicators', asyncHandler(async (req: any, res: any) => {
+  const symbol = String(req.params.symbol).toUpperCase();
+
+  if (!/^[A-Z0-9]{1,10}$/.test(symbol)) {
+    return res.status(400).json({ error: 'Invalid symbol' });
+  }
+
+  const indicators = await indicatorService.getIndicators(symbol);
+  res.json({ symbol, indicators });
+}));
+
+export default router;
\ No newline at end of file
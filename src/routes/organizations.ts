@@ -0,0 +1,107 @@
+import express from 'express';
+import { authenticate, requireSession } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { OrganizationService } from '../services/organizationService.js';
+
+const router = express.Router();
+const organizationService = new OrganizationService();
+
+const parseDate = (value: any): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Managing organizations needs an interactive session
+router.use(authenticate, requireSession);
+
+// Create an organization owned by the caller
+router.post('/', validateRequest(schemas.createOrganization), asyncHandler(async (req: any, res: any) => {
+  const organization = await organizationService.createOrganization(req.user.id, req.body.name);
+  res.status(201).json(organization);
+}));
+
+// Organizations the caller belongs to
+router.get('/', asyncHandler(async (req: any, res: any) => {
+  const organizations = await organizationService.listOrganizations(req.user.id);
+  res.json({ organizations });
+}));
+
+// Accept an emailed invitation
+router.post('/invitations/accept', validateRequest(schemas.acceptInvitation), asyncHandler(async (req: any, res: any) => {
+  const organization = await organizationService.acceptInvitation(req.user.id, req.body.token);
+  res.json(organization);
+}));
+
+// Organization details and members
+router.get('/:organizationId', asyncHandler(async (req: any, res: any) => {
+  const organization = await organizationService.getOrganization(req.user.id, req.params.organizationId);
+  res.json(organization);
+}));
+
+// Rename or change the seat limit (owners)
+router.patch('/:organizationId', validateRequest(schemas.updateOrganization), asyncHandler(async (req: any, res: any) => {
+  const organization = await organizationService.updateOrganization(req.user.id, req.params.organizationId, req.body);
+  res.json(organization);
+}));
+
+// Pending invitations (owners)
+router.get('/:organizationId/invitations', asyncHandler(async (req: any, res: any) => {
+  const invitations = await organizationService.listInvitations(req.user.id, req.params.organizationId);
+  res.json({ invitations });
+}));
+
+// Invite someone by email (owners)
+router.post('/:organizationId/invitations', validateRequest(schemas.inviteMember), asyncHandler(async (req: any, res: any) => {
+  const { email, role } = req.body;
+  const invitation = await organizationService.inviteMember(req.user.id, req.params.organizationId, email, role);
+  res.status(201).json(invitation);
+}));
+
+// Revoke a pending invitation (owners)
+router.delete('/:organizationId/invitations/:invitationId', asyncHandler(async (req: any, res: any) => {
+  const { organizationId, invitationId } = req.params;
+  const revoked = await organizationService.revokeInvitation(req.user.id, organizationId, invitationId);
+
+  if (!revoked) {
+    return res.status(404).json({ error: 'Invitation not found' });
+  }
+
+  res.json({ message: 'Invitation revoked' });
+}));
+
+// Change a member's role (owners)
+router.patch('/:organizationId/members/:userId', validateRequest(schemas.updateMemberRole), asyncHandler(async (req: any, res: any) => {
+  const { organizationId, userId } = req.params;
+  const organization = await organizationService.updateMemberRole(req.user.id, organizationId, userId, req.body.role);
+  res.json(organization);
+}));
+
+// Remove a member, or leave the organization
+router.delete('/:organizationId/members/:userId', asyncHandler(async (req: any, res: any) => {
+  const { organizationId, userId } = req.params;
+  await organizationService.removeMember(req.user.id, organizationId, userId);
+  res.json({ message: 'Member removed' });
+}));
+
+// Analyses shared with the organization
+router.get('/:organizationId/analyses', asyncHandler(async (req: any, res: any) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 10));
+  const result = await organizationService.listAnalyses(req.user.id, req.params.organizationId, page, limit);
+  res.json(result);
+}));
+
+// Spend billed to the organization (owners)
+router.get('/:organizationId/spend', asyncHandler(async (req: any, res: any) => {
+  const spend = await organizationService.getSpend(req.user.id, req.params.organizationId, {
+    from: parseDate(req.query.from),
+    to: parseDate(req.query.to),
+  });
+  res.json(spend);
+}));
+
+export default router;
\ No newline at end of file
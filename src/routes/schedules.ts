@@ -0,0 +1,53 @@
+import express from 'express';
+import { authenticate, requireScope } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { ScheduleService } from '../services/scheduleService.js';
+
+const router = express.Router();
+const scheduleService = new ScheduleService();
+
+router.use(authenticate);
+
+// Recurring analysis on a cron cadence (UTC), paid from the credit balance at each run
+router.post('/', requireScope('analysis:create'), validateRequest(schemas.createSchedule), asyncHandler(async (req: any, res: any) => {
+  const { type, parameters, cadence } = req.body;
+  const schedule = await scheduleService.createSchedule(req.user.id, type, parameters, cadence);
+  res.status(201).json(schedule);
+}));
+
+// The caller's schedules
+router.get('/', requireScope('analysis:read'), asyncHandler(async (req: any, res: any) => {
+  const schedules = await scheduleService.listSchedules(req.user.id);
+  res.json({ schedules });
+}));
+
+router.get('/:scheduleId', requireScope('analysis:read'), asyncHandler(async (req: any, res: any) => {
+  const schedule = await scheduleService.getSchedule(req.user.id, req.params.scheduleId);
+  res.json(schedule);
+}));
+
+router.post('/:scheduleId/pause', requireScope('analysis:create'), asyncHandler(async (req: any, res: any) => {
+  const schedule = await scheduleService.pauseSchedule(req.user.id, req.params.scheduleId);
+  res.json(schedule);
+}));
+
+router.post('/:scheduleId/resume', requireScope('analysis:create'), asyncHandler(async (req: any, res: any) => {
+  const schedule = await scheduleService.resumeSchedule(req.user.id, req.params.scheduleId);
+  res.json(schedule);
+}));
+
+router.delete('/:scheduleId', requireScope('analysis:create'), asyncHandler(async (req: any, res: any) => {
+  await scheduleService.deleteSchedule(req.user.id, req.params.scheduleId);
+  res.json({ message: 'Schedule deleted' });
+}));
+
+// Runs of a schedule, newest first, with the analysis each one produced
+router.get('/:scheduleId/runs', requireScope('analysis:read'), asyncHandler(async (req: any, res: any) => {
+  const page = Math.max(1, Number(req.query.page) || 1);
+  const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 10));
+  const result = await scheduleService.listRuns(req.user.id, req.params.scheduleId, page, limit);
+  res.json(result);
+}));
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,43 @@
+import express from 'express';
+import { authenticate, requireSession } from '../utils/middleware/auth.js';
+import { validateRequest, schemas } from '../utils/middleware/validation.js';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { ShareLinkService } from '../services/shareLinkService.js';
+
+const router = express.Router();
+const shareLinkService = new ShareLinkService();
+
+// Publishing reports needs an interactive session
+router.use(authenticate, requireSession);
+
+// Active links with their view counts (?analysisId= for one analysis)
+router.get('/', asyncHandler(async (req: any, res: any) => {
+  const analysisId = typeof req.query.analysisId === 'string' ? req.query.analysisId : undefined;
+  const shareLinks = await shareLinkService.listLinks(req.user.id, analysisId);
+  res.json({ shareLinks });
+}));
+
+// Create a link to one of the caller's completed analyses (the token is only returned here)
+router.post('/', validateRequest(schemas.createShareLink), asyncHandler(async (req: any, res: any) => {
+  const { analysisId, expiresAt, maxViews } = req.body;
+
+  const { token, url, shareLink } = await shareLinkService.createLink(req.user.id, analysisId, {
+    expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    maxViews,
+  });
+
+  res.status(201).json({ token, url, shareLink });
+}));
+
+// Revoke a link; it stops working immediately
+router.delete('/:linkId', asyncHandler(async (req: any, res: any) => {
+  const revoked = await shareLinkService.revokeLink(req.user.id, req.params.linkId);
+
+  if (!revoked) {
+    return res.status(404).json({ error: 'Share link not found' });
+  }
+
+  res.json({ revoked: true });
+}));
+
+export default router;
\ No newline at end of file
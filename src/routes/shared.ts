@@ -0,0 +1,14 @@
+import express from 'express';
+import { asyncHandler } from '../utils/middleware/errorHandler.js';
+import { ShareLinkService } from '../services/shareLinkService.js';
+
+const router = express.Router();
+const shareLinkService = new ShareLinkService();
+
+// Public, read-only view of a shared report; every successful request counts as a view
+router.get('/:token', asyncHandler(async (req: any, res: any) => {
+  const shared = await shareLinkService.viewShared(req.params.token);
+  res.json(shared);
+}));
+
+export default router;
\ No newline at end of file
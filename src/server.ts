@@ -1,6 +1,11 @@
 import { config } from './utils/config.js';
 import { logger } from './utils/logger.js';
 import app from './app.js';
+import { JobWorker } from './services/jobWorker.js';
+import { AnalysisGenerationService, GENERATE_ANALYSIS_JOB } from './services/analysisGenerationService.js';
+import { RUN_SCHEDULE_JOB, ScheduleService } from './services/scheduleService.js';
+import { Scheduler } from './services/scheduler.js';
+import { BACKTEST_SWEEP_JOB, BacktestService } from './services/backtestService.js';
 
 const startServer = async () => {
   try {
@@ -11,10 +16,25 @@ const startServer = async () => {
       logger.info(`📍 Health check: http://localhost:${config.port}/health`);
     });
 
+    // Background jobs (analysis generation, scheduled runs, backtests); disable to run API-only instances
+    const worker = new JobWorker({
+      [GENERATE_ANALYSIS_JOB]: new AnalysisGenerationService().jobHandler,
+      [RUN_SCHEDULE_JOB]: new ScheduleService().jobHandler,
+      [BACKTEST_SWEEP_JOB]: new BacktestService().jobHandler,
+    });
+    const scheduler = new Scheduler();
+
+    if (config.jobs.workerEnabled) {
+      worker.start();
+      scheduler.start();
+    }
+
     // Graceful shutdown
     process.on('SIGTERM', () => {
       logger.info('SIGTERM received, shutting down gracefully');
-      server.close(() => {
+      server.close(async () => {
+        await scheduler.stop();
+        await worker.stop();
         logger.info('Process terminated');
         process.exit(0);
       });
@@ -0,0 +1,222 @@
+import archiver from 'archiver';
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { SiweService } from './siweService.js';
+import { TwoFactorService } from './twoFactorService.js';
+import { hasRealEmail } from './accountLinkService.js';
+import { LoginThrottleService, accountThrottleKey, ipThrottleKey, twoFactorThrottleKey } from './loginThrottleService.js';
+
+const prisma = new PrismaClient();
+
+// Erased accounts keep a unique, non-deliverable address so the row can stay
+const DELETED_EMAIL_DOMAIN = '@deleted.local';
+
+// Re-authentication required before an account is erased
+export type DeletionProof =
+  | { password: string; code?: string }
+  | { message: string; signature: string; code?: string };
+
+export class AccountDataService {
+  private siweService: SiweService;
+  private twoFactorService: TwoFactorService;
+  private loginThrottleService: LoginThrottleService;
+
+  constructor() {
+    this.siweService = new SiweService();
+    this.twoFactorService = new TwoFactorService();
+    this.loginThrottleService = new LoginThrottleService();
+  }
+
+  // Everything we hold about the user; secrets and hashes are left out
+  async exportData(userId: string): Promise<any> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        emailVerifiedAt: true,
+        walletId: true,
+        walletAddress: true,
+        role: true,
+        twoFactorEnabledAt: true,
+        creditBalance: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    const [analyses, payments, sessions, apiKeys, memberships, schedules, creditTransactions] = await Promise.all([
+      prisma.analysis.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.payment.findMany({
+        where: { userId },
+        include: { distributions: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.session.findMany({
+        where: { userId },
+        select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.apiKey.findMany({
+        where: { userId },
+        select: { id: true, name: true, prefix: true, scopes: true, createdAt: true, lastUsedAt: true, revokedAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.organizationMember.findMany({
+        where: { userId },
+        select: { role: true, createdAt: true, organization: { select: { id: true, name: true } } },
+      }),
+      prisma.analysisSchedule.findMany({
+        where: { userId },
+        include: { runs: { orderBy: { scheduledFor: 'asc' } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.creditTransaction.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    logger.info(`Exported account data for user ${userId}`);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: { ...user, email: hasRealEmail(user) ? user.email : null },
+      organizations: memberships,
+      analyses,
+      payments,
+      credits: { balance: user.creditBalance, transactions: creditTransactions },
+      schedules,
+      sessions,
+      apiKeys,
+    };
+  }
+
+  // JSON files per section plus each completed report as markdown
+  createExportArchive(bundle: any): archiver.Archiver {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const json = (value: any) => JSON.stringify(value, null, 2);
+
+    archive.append(json(bundle), { name: 'export.json' });
+    archive.append(json(bundle.profile), { name: 'profile.json' });
+    archive.append(json(bundle.organizations), { name: 'organizations.json' });
+    archive.append(json(bundle.analyses), { name: 'analyses.json' });
+    archive.append(json(bundle.payments), { name: 'payments.json' });
+    archive.append(json({ credits: bundle.credits, schedules: bundle.schedules }), { name: 'schedules.json' });
+    archive.append(json({ sessions: bundle.sessions, apiKeys: bundle.apiKeys }), { name: 'security.json' });
+
+    for (const analysis of bundle.analyses) {
+      const report = analysis.result?.fullAnalysis;
+      if (typeof report === 'string') {
+        archive.append(report, { name: `reports/${analysis.id}.md` });
+      }
+    }
+
+    archive.finalize();
+    return archive;
+  }
+
+  // Erases personal data; payments (and their user row) are kept for record-keeping
+  async deleteAccount(userId: string, proof: DeletionProof, ip?: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || user.deletedAt) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    await this.verifyProof(user, proof, ip);
+
+    // Organizations must not be left without an owner
+    const ownedOrganizations = await prisma.organizationMember.findMany({
+      where: { userId, role: 'OWNER' },
+      select: { organizationId: true },
+    });
+
+    for (const { organizationId } of ownedOrganizations) {
+      const [otherOwners, otherMembers] = await Promise.all([
+        prisma.organizationMember.count({ where: { organizationId, role: 'OWNER', userId: { not: userId } } }),
+        prisma.organizationMember.count({ where: { organizationId, userId: { not: userId } } }),
+      ]);
+
+      if (otherMembers > 0 && otherOwners === 0) {
+        throw new HttpError(409, 'Transfer ownership of your organizations before deleting your account');
+      }
+    }
+
+    const throttleKeys = [
+      accountThrottleKey(user.email),
+      twoFactorThrottleKey(user.id),
+      ...(user.walletAddress ? [accountThrottleKey(user.walletAddress)] : []),
+    ];
+
+    await prisma.$transaction(async (tx) => {
+      await tx.session.deleteMany({ where: { userId } });
+      await tx.apiKey.deleteMany({ where: { userId } });
+      await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+      await tx.twoFactorChallenge.deleteMany({ where: { userId } });
+      await tx.organizationMember.deleteMany({ where: { userId } });
+      await tx.loginThrottle.deleteMany({ where: { key: { in: throttleKeys } } });
+      await tx.analysisSchedule.deleteMany({ where: { userId } });
+
+      if (user.walletAddress) {
+        await tx.authNonce.deleteMany({ where: { address: user.walletAddress } });
+      }
+
+      // Analyses billed to an organization belong to it; personal ones go, and nothing stays published
+      await tx.analysisShareLink.deleteMany({ where: { analysis: { userId } } });
+      await tx.analysis.deleteMany({ where: { userId, organizationId: null } });
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          email: `deleted-${userId}${DELETED_EMAIL_DOMAIN}`,
+          emailVerifiedAt: null,
+          password: '',
+          walletId: null,
+          walletAddress: null,
+          role: 'USER',
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          disabledAt: new Date(),
+          deletedAt: new Date(),
+        },
+      });
+    });
+
+    logger.info(`Deleted account data for user ${userId}`);
+  }
+
+  private async verifyProof(user: any, proof: DeletionProof, ip?: string): Promise<void> {
+    if ('signature' in proof) {
+      const address = await this.siweService.verifyLogin(proof.message, proof.signature);
+
+      if (!user.walletAddress || address !== user.walletAddress) {
+        throw new HttpError(401, 'Signature does not match the linked wallet');
+      }
+
+      await this.twoFactorService.requireSecondFactor(user, proof.code);
+      return;
+    }
+
+    // A stolen session must not become a way around the login throttle
+    await this.loginThrottleService.guard([accountThrottleKey(user.email), ipThrottleKey(ip)], async () => {
+      const isValidPassword = user.password ? await bcrypt.compare(proof.password, user.password) : false;
+
+      if (!isValidPassword) {
+        throw new HttpError(401, 'Invalid credentials');
+      }
+
+      await this.twoFactorService.requireSecondFactor(user, proof.code);
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { MailTransport, createMailTransport } from './mailService.js';
+import { SessionService } from './sessionService.js';
+import { hasRealEmail } from './accountLinkService.js';
+
+const prisma = new PrismaClient();
+
+type EmailTokenPurpose = 'verify_email' | 'password_reset';
+
+// Ties a reset token to the current password so it stops working once used
+const passwordFingerprint = (passwordHash: string) =>
+  crypto.createHash('sha256').update(passwordHash).digest('hex').substring(0, 16);
+
+export class AccountEmailService {
+  private mailTransport: MailTransport;
+  private sessionService: SessionService;
+
+  constructor(mailTransport: MailTransport = createMailTransport()) {
+    this.mailTransport = mailTransport;
+    this.sessionService = new SessionService();
+  }
+
+  async sendVerificationEmail(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user || !hasRealEmail(user)) {
+      throw new HttpError(400, 'Account has no email to verify');
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new HttpError(400, 'Email already verified');
+    }
+
+    const token = this.signToken('verify_email', { userId: user.id, email: user.email }, config.accountEmails.verificationTtl);
+    const link = `${config.app.frontendUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Verify your CryptoAnalyst AI email',
+      text: `Confirm your email address by opening this link:\n\n${link}\n\nThe link expires in ${config.accountEmails.verificationTtl}.`,
+    });
+
+    logger.info(`Sent verification email to user ${user.id}`);
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const payload = this.verifyToken(token, 'verify_email');
+    const user = await prisma.user.findUnique({ where: { id: payload.userId } });
+
+    // The address may have been changed since the link was sent
+    if (!user || user.email !== payload.email) {
+      throw new HttpError(400, 'Verification link is no longer valid');
+    }
+
+    if (!user.emailVerifiedAt) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerifiedAt: new Date() },
+      });
+      logger.info(`Verified email for user ${user.id}`);
+    }
+  }
+
+  // Always resolves so callers cannot probe which emails have accounts
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (!user || !hasRealEmail(user) || user.disabledAt) {
+      logger.info('Password reset requested for unknown or unavailable account');
+      return;
+    }
+
+    const token = this.signToken(
+      'password_reset',
+      { userId: user.id, fingerprint: passwordFingerprint(user.password) },
+      config.accountEmails.passwordResetTtl
+    );
+    const link = `${config.app.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+    // A send failure must look like any other request, or the reply would tell registered emails apart
+    try {
+      await this.mailTransport.send({
+        to: user.email,
+        subject: 'Reset your CryptoAnalyst AI password',
+        text: `Choose a new password by opening this link:\n\n${link}\n\nThe link expires in ${config.accountEmails.passwordResetTtl}. If you did not ask for this, you can ignore this email.`,
+      });
+    } catch (error) {
+      logger.error(`Error sending password reset email to user ${user.id}:`, error);
+      return;
+    }
+
+    logger.info(`Sent password reset email to user ${user.id}`);
+  }
+
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const payload = this.verifyToken(token, 'password_reset');
+    const user = await prisma.user.findUnique({ where: { id: payload.userId } });
+
+    if (!user || user.disabledAt || passwordFingerprint(user.password) !== payload.fingerprint) {
+      throw new HttpError(400, 'Reset link is no longer valid');
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        password: await bcrypt.hash(newPassword, 12),
+        // Receiving the reset link proves control of the address
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      },
+    });
+
+    await this.sessionService.revokeAllSessions(user.id, undefined, 'password_reset');
+    logger.info(`Password reset for user ${user.id}`);
+  }
+
+  private signToken(purpose: EmailTokenPurpose, payload: Record<string, string>, expiresIn: string): string {
+    return jwt.sign(
+      { ...payload, purpose },
+      config.jwt.secret,
+      { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] }
+    );
+  }
+
+  private verifyToken(token: string, purpose: EmailTokenPurpose): any {
+    let payload: any;
+    try {
+      payload = jwt.verify(token, config.jwt.secret);
+    } catch (error) {
+      throw new HttpError(400, 'Link is invalid or has expired');
+    }
+
+    if (payload.purpose !== purpose) {
+      throw new HttpError(400, 'Link is invalid or has expired');
+    }
+
+    return payload;
+  }
+}
\ No newline at end of file
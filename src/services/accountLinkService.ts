@@ -0,0 +1,291 @@
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { SiweService } from './siweService.js';
+import { SessionService } from './sessionService.js';
+import { TwoFactorService } from './twoFactorService.js';
+import { LoginThrottleService, accountThrottleKey, ipThrottleKey } from './loginThrottleService.js';
+
+const prisma = new PrismaClient();
+
+// Wallet-only accounts carry a placeholder email until a real one is linked
+const WALLET_EMAIL_DOMAIN = '@wallet.local';
+
+export const walletPlaceholderEmail = (address: string) => `${address.toLowerCase()}${WALLET_EMAIL_DOMAIN}`;
+
+export const hasRealEmail = (user: { email: string }) => !user.email.endsWith(WALLET_EMAIL_DOMAIN);
+
+// Proof that the caller controls the account being merged in
+export type AccountProof =
+  | { email: string; password: string; code?: string }
+  | { message: string; signature: string; code?: string };
+
+const linkFields = {
+  id: true,
+  email: true,
+  emailVerifiedAt: true,
+  walletId: true,
+  walletAddress: true,
+  createdAt: true,
+};
+
+export class AccountLinkService {
+  private siweService: SiweService;
+  private sessionService: SessionService;
+  private twoFactorService: TwoFactorService;
+  private loginThrottleService: LoginThrottleService;
+
+  constructor() {
+    this.siweService = new SiweService();
+    this.sessionService = new SessionService();
+    this.twoFactorService = new TwoFactorService();
+    this.loginThrottleService = new LoginThrottleService();
+  }
+
+  async linkWallet(userId: string, message: string, signature: string): Promise<any> {
+    const address = await this.siweService.verifyLogin(message, signature);
+    const user = await this.findUser(userId);
+
+    if (user.walletAddress === address) {
+      return this.getLinkedAccounts(userId);
+    }
+
+    if (user.walletAddress) {
+      throw new HttpError(409, 'Another wallet is already linked, unlink it first');
+    }
+
+    const owner = await prisma.user.findUnique({ where: { walletAddress: address } });
+    if (owner) {
+      throw new HttpError(409, 'Wallet belongs to another account, merge the accounts instead');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { walletAddress: address },
+    });
+
+    logger.info(`Linked wallet ${address} to user ${userId}`);
+    return this.getLinkedAccounts(userId);
+  }
+
+  async linkEmail(userId: string, email: string, password: string): Promise<any> {
+    const user = await this.findUser(userId);
+
+    if (hasRealEmail(user)) {
+      throw new HttpError(409, 'Account already has an email, unlink it first');
+    }
+
+    const owner = await prisma.user.findUnique({ where: { email } });
+    if (owner) {
+      throw new HttpError(409, 'Email belongs to another account, merge the accounts instead');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        email,
+        emailVerifiedAt: null,
+        password: await bcrypt.hash(password, 12),
+      },
+    });
+
+    logger.info(`Linked email to wallet account ${userId}`);
+    return this.getLinkedAccounts(userId);
+  }
+
+  async unlinkWallet(userId: string): Promise<any> {
+    const user = await this.findUser(userId);
+
+    if (!user.walletAddress) {
+      throw new HttpError(400, 'No wallet linked');
+    }
+
+    if (!hasRealEmail(user) || !user.password) {
+      throw new HttpError(400, 'Link an email and password before removing the only sign-in method');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { walletAddress: null },
+    });
+
+    logger.info(`Unlinked wallet ${user.walletAddress} from user ${userId}`);
+    return this.getLinkedAccounts(userId);
+  }
+
+  async unlinkEmail(userId: string): Promise<any> {
+    const user = await this.findUser(userId);
+
+    if (!hasRealEmail(user)) {
+      throw new HttpError(400, 'No email linked');
+    }
+
+    if (!user.walletAddress) {
+      throw new HttpError(400, 'Link a wallet before removing the only sign-in method');
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: walletPlaceholderEmail(user.walletAddress),
+        emailVerifiedAt: null,
+        password: '',
+      },
+    });
+
+    logger.info(`Unlinked email from user ${userId}`);
+    return this.getLinkedAccounts(userId);
+  }
+
+  // Moves the other account's analyses, payments, credit and schedules into this one and retires it
+  async mergeAccounts(targetUserId: string, proof: AccountProof, ip?: string): Promise<any> {
+    const target = await this.findUser(targetUserId);
+    const source = await this.verifyProof(proof, ip);
+
+    if (source.id === target.id) {
+      throw new HttpError(400, 'Cannot merge an account into itself');
+    }
+
+    if (source.disabledAt) {
+      throw new HttpError(403, 'Account disabled');
+    }
+
+    if (source.walletAddress && target.walletAddress) {
+      throw new HttpError(409, 'Both accounts have a linked wallet, unlink one first');
+    }
+
+    const moveEmail = hasRealEmail(source) && !hasRealEmail(target);
+    const moveWallet = Boolean(source.walletAddress);
+    const moveWalletId = Boolean(source.walletId && !target.walletId);
+
+    const moved = await prisma.$transaction(async (tx) => {
+      const analyses = await tx.analysis.updateMany({
+        where: { userId: source.id },
+        data: { userId: target.id },
+      });
+
+      const payments = await tx.payment.updateMany({
+        where: { userId: source.id },
+        data: { userId: target.id },
+      });
+
+      const credits = await tx.creditTransaction.updateMany({
+        where: { userId: source.id },
+        data: { userId: target.id },
+      });
+
+      const schedules = await tx.analysisSchedule.updateMany({
+        where: { userId: source.id },
+        data: { userId: target.id },
+      });
+
+      // Free the unique identifiers on the retired account before reassigning them. The update locks the row,
+      // so the balance it returns cannot be charged by a scheduled run before it is moved
+      const retired = await tx.user.update({
+        where: { id: source.id },
+        data: {
+          disabledAt: new Date(),
+          mergedIntoId: target.id,
+          ...(moveEmail && { email: `merged-${source.id}${WALLET_EMAIL_DOMAIN}`, password: '' }),
+          ...(moveWallet && { walletAddress: null }),
+          ...(moveWalletId && { walletId: null }),
+        },
+      });
+
+      await tx.user.update({
+        where: { id: source.id },
+        data: { creditBalance: 0 },
+      });
+
+      await tx.user.update({
+        where: { id: target.id },
+        data: {
+          ...(moveEmail && { email: source.email, emailVerifiedAt: source.emailVerifiedAt, password: source.password }),
+          ...(moveWallet && { walletAddress: source.walletAddress }),
+          ...(moveWalletId && { walletId: source.walletId }),
+          creditBalance: { increment: retired.creditBalance },
+        },
+      });
+
+      await tx.apiKey.updateMany({
+        where: { userId: source.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      return {
+        analyses: analyses.count,
+        payments: payments.count,
+        creditTransactions: credits.count,
+        schedules: schedules.count,
+        creditBalance: retired.creditBalance,
+      };
+    });
+
+    await this.sessionService.revokeAllSessions(source.id, undefined, 'account_merged');
+
+    logger.info(`Merged user ${source.id} into ${target.id} (${moved.analyses} analyses, ${moved.payments} payments)`);
+
+    return {
+      mergedUserId: source.id,
+      moved,
+      user: await this.getLinkedAccounts(target.id),
+    };
+  }
+
+  async getLinkedAccounts(userId: string): Promise<any> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { ...linkFields, password: true },
+    });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    const { password, ...profile } = user;
+
+    return {
+      ...profile,
+      email: hasRealEmail(user) ? user.email : null,
+      hasPassword: Boolean(password),
+    };
+  }
+
+  private async verifyProof(proof: AccountProof, ip?: string) {
+    if ('signature' in proof) {
+      const address = await this.siweService.verifyLogin(proof.message, proof.signature);
+      const user = await prisma.user.findUnique({ where: { walletAddress: address } });
+
+      if (!user) {
+        throw new HttpError(404, 'No account uses this wallet');
+      }
+
+      await this.twoFactorService.requireSecondFactor(user, proof.code);
+      return user;
+    }
+
+    // Guessing the other account's password here counts like guessing it at login
+    return this.loginThrottleService.guard([accountThrottleKey(proof.email), ipThrottleKey(ip)], async () => {
+      const user = await prisma.user.findUnique({ where: { email: proof.email } });
+      const isValidPassword = user?.password ? await bcrypt.compare(proof.password, user.password) : false;
+
+      if (!user || !isValidPassword) {
+        throw new HttpError(401, 'Invalid credentials');
+      }
+
+      await this.twoFactorService.requireSecondFactor(user, proof.code);
+      return user;
+    });
+  }
+
+  private async findUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return user;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { Prisma, PrismaClient, UserRole } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { SessionService } from './sessionService.js';
+import { LoginThrottleService, accountThrottleKey, twoFactorThrottleKey } from './loginThrottleService.js';
+
+const prisma = new PrismaClient();
+
+const userFields = {
+  id: true,
+  email: true,
+  walletId: true,
+  walletAddress: true,
+  role: true,
+  disabledAt: true,
+  deletedAt: true,
+  createdAt: true,
+};
+
+export interface Pagination {
+  page: number;
+  limit: number;
+}
+
+const paginate = ({ page, limit }: Pagination) => ({
+  skip: (page - 1) * limit,
+  take: limit,
+});
+
+const paginationMeta = ({ page, limit }: Pagination, total: number) => ({
+  page,
+  limit,
+  total,
+  pages: Math.ceil(total / limit),
+});
+
+export class AdminService {
+  private sessionService: SessionService;
+  private loginThrottleService: LoginThrottleService;
+
+  constructor() {
+    this.sessionService = new SessionService();
+    this.loginThrottleService = new LoginThrottleService();
+  }
+
+  async listUsers(filters: { search?: string; role?: UserRole }, pagination: Pagination): Promise<any> {
+    const where: Prisma.UserWhereInput = {
+      ...(filters.role && { role: filters.role }),
+      ...(filters.search && {
+        OR: [
+          { id: filters.search },
+          { email: { contains: filters.search, mode: 'insensitive' } },
+          { walletAddress: { contains: filters.search.toLowerCase() } },
+        ],
+      }),
+    };
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: {
+          ...userFields,
+          _count: { select: { analyses: true, payments: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        ...paginate(pagination),
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    return { users, pagination: paginationMeta(pagination, total) };
+  }
+
+  async updateRole(adminId: string, userId: string, role: UserRole): Promise<any> {
+    if (adminId === userId && role !== 'ADMIN') {
+      throw new HttpError(400, 'Admins cannot remove their own admin role');
+    }
+
+    const user = await this.findUser(userId);
+
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: { role },
+      select: userFields,
+    });
+
+    logger.info(`Admin ${adminId} changed role of user ${userId} from ${user.role} to ${role}`);
+    return updated;
+  }
+
+  async disableUser(adminId: string, userId: string): Promise<any> {
+    if (adminId === userId) {
+      throw new HttpError(400, 'Admins cannot disable their own account');
+    }
+
+    await this.findUser(userId);
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { disabledAt: new Date() },
+      select: userFields,
+    });
+
+    // Signed-in devices are cut off immediately rather than at token expiry
+    await this.sessionService.revokeAllSessions(userId, undefined, 'account_disabled');
+
+    logger.info(`Admin ${adminId} disabled user ${userId}`);
+    return updated;
+  }
+
+  async enableUser(adminId: string, userId: string): Promise<any> {
+    await this.findUser(userId);
+
+    const updated = await prisma.user.update({
+      where: { id: userId },
+      data: { disabledAt: null },
+      select: userFields,
+    });
+
+    logger.info(`Admin ${adminId} re-enabled user ${userId}`);
+    return updated;
+  }
+
+  // Clears brute-force lockouts on the user's email, wallet and 2FA codes
+  async unlockLogin(adminId: string, userId: string): Promise<{ cleared: number }> {
+    const user = await this.findUser(userId);
+    const keys = [accountThrottleKey(user.email), twoFactorThrottleKey(user.id)];
+
+    if (user.walletAddress) {
+      keys.push(accountThrottleKey(user.walletAddress));
+    }
+
+    const cleared = await this.loginThrottleService.unlock(keys, `admin ${adminId}`);
+    return { cleared };
+  }
+
+  async listFailedAnalyses(pagination: Pagination): Promise<any> {
+    const where: Prisma.AnalysisWhereInput = { status: 'FAILED' };
+
+    const [analyses, total] = await Promise.all([
+      prisma.analysis.findMany({
+        where,
+        include: {
+          user: { select: { id: true, email: true } },
+          payment: { select: { id: true, status: true, amount: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        ...paginate(pagination),
+      }),
+      prisma.analysis.count({ where }),
+    ]);
+
+    return { analyses, pagination: paginationMeta(pagination, total) };
+  }
+
+  async listPendingPayments(pagination: Pagination): Promise<any> {
+    const where: Prisma.PaymentWhereInput = { status: { in: ['PENDING', 'PROCESSING'] } };
+
+    const [payments, total] = await Promise.all([
+      prisma.payment.findMany({
+        where,
+        include: {
+          user: { select: { id: true, email: true } },
+          analysis: { select: { id: true, type: true, status: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+        ...paginate(pagination),
+      }),
+      prisma.payment.count({ where }),
+    ]);
+
+    return { payments, pagination: paginationMeta(pagination, total) };
+  }
+
+  private async findUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return user;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import {
+  ComputedInputs,
+  SUMMARY_TEMPLATE_KEY,
+  SelectedPromptTemplate,
+  analysisTemplateVariables,
+  builtinTemplate,
+  renderTemplate,
+} from '../utils/promptTemplates.js';
+import { analysisOutputExamples, analysisOutputSchemas, extractJson, validateAnalysisOutput } from '../utils/analysisSchemas.js';
+import { LlmProvider, LlmResponse, LlmUsage, analysisModelFor, createLlmProvider, summaryModelFor } from './llm/index.js';
+
+export interface StructuredOutput {
+  data: any; // null when every reply failed validation
+  model: string;
+  attempts: number;
+  usage: LlmUsage;
+  error?: string; // why the last reply was rejected, when none passed
+}
+
+// Writes analyses and summaries through whichever LLM provider is configured
+export class AnalysisAiService {
+  private provider: LlmProvider;
+
+  constructor(provider: LlmProvider = createLlmProvider()) {
+    this.provider = provider;
+  }
+
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  async generateAnalysis(
+    analysisType: string,
+    cryptoData: any,
+    marketData: any,
+    userParameters: any,
+    computed: ComputedInputs = {},
+    template: SelectedPromptTemplate = builtinTemplate(analysisType),
+    correction: string = ''
+  ): Promise<LlmResponse> {
+    try {
+      const response = await this.provider.complete(
+        this.buildAnalysisRequest(analysisType, cryptoData, marketData, userParameters, computed, template, correction)
+      );
+
+      logger.info(`Generated ${analysisType} analysis with ${this.provider.name}/${response.model}`);
+      return response;
+
+    } catch (error) {
+      logger.error(`Error generating analysis with ${this.provider.name}:`, error);
+      throw new Error('Failed to generate AI analysis');
+    }
+  }
+
+  // Same request as generateAnalysis, streamed; onText receives each piece of report text as it arrives
+  async generateAnalysisStream(
+    analysisType: string,
+    cryptoData: any,
+    marketData: any,
+    userParameters: any,
+    computed: ComputedInputs,
+    onText: (text: string) => void,
+    template: SelectedPromptTemplate = builtinTemplate(analysisType),
+    correction: string = ''
+  ): Promise<LlmResponse> {
+    try {
+      const response = await this.provider.stream(
+        this.buildAnalysisRequest(analysisType, cryptoData, marketData, userParameters, computed, template, correction),
+        onText
+      );
+
+      logger.info(`Streamed ${analysisType} analysis with ${this.provider.name}/${response.model}`);
+      return response;
+
+    } catch (error) {
+      logger.error(`Error streaming analysis from ${this.provider.name}:`, error);
+      throw new Error('Failed to generate AI analysis');
+    }
+  }
+
+  // Asks for the report's key fields as JSON; replies that fail validation are retried with the errors.
+  // The report is already paid for, so running out of attempts yields no data rather than an error.
+  // onAttempt receives every reply, rejected ones included, as it arrives
+  async generateStructuredOutput(
+    analysisType: string,
+    report: string,
+    cryptoData: any,
+    marketData: any,
+    userParameters: any,
+    computed: ComputedInputs = {},
+    onAttempt: (response: LlmResponse) => Promise<void> = async () => {}
+  ): Promise<StructuredOutput | null> {
+    if (!analysisOutputSchemas[analysisType]) {
+      return null;
+    }
+
+    const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+    let model = analysisModelFor(analysisType, this.provider.name);
+    let correction = '';
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= config.analysis.structuredOutputAttempts; attempt++) {
+      const response = await this.provider.complete({
+        model: analysisModelFor(analysisType, this.provider.name),
+        prompt: this.buildStructuredPrompt(analysisType, report, correction),
+        maxTokens: 1000,
+        temperature: 0,
+        context: { task: 'structured', analysisType, cryptoData, marketData, parameters: userParameters, ...computed },
+      });
+
+      await onAttempt(response);
+      usage.inputTokens += response.usage?.inputTokens || 0;
+      usage.outputTokens += response.usage?.outputTokens || 0;
+      model = response.model;
+
+      let parsed;
+      try {
+        parsed = extractJson(response.text);
+      } catch (error) {
+        parsed = undefined;
+        lastError = `reply was not valid JSON (${error instanceof Error ? error.message : error})`;
+      }
+
+      if (parsed !== undefined) {
+        const { value, error } = validateAnalysisOutput(analysisType, parsed);
+        if (value) {
+          return { data: value, model: response.model, attempts: attempt, usage };
+        }
+        lastError = error || 'unknown validation error';
+      }
+
+      logger.warn(`Structured ${analysisType} output attempt ${attempt} rejected: ${lastError}`);
+      correction = `
+Your previous reply was rejected: ${lastError}
+
+PREVIOUS REPLY:
+${response.text}
+
+Reply again with corrected JSON only.
+`;
+    }
+
+    const attempts = config.analysis.structuredOutputAttempts;
+    logger.error(`Structured output for ${analysisType} failed validation after ${attempts} attempts: ${lastError}`);
+    return { data: null, model, attempts, usage, error: lastError };
+  }
+
+  private buildStructuredPrompt(analysisType: string, report: string, correction: string): string {
+    return `
+Extract the key figures of the following ${analysisType} report as a single JSON object.
+Use exactly these fields (values describe the expected type or range):
+
+${JSON.stringify(analysisOutputExamples[analysisType], null, 2)}
+
+Prices are plain numbers in USD without symbols or separators. Reply with the JSON object only, no prose and no code fences.
+
+REPORT:
+${report}
+${correction}`;
+  }
+
+  private buildAnalysisRequest(
+    analysisType: string,
+    cryptoData: any,
+    marketData: any,
+    userParameters: any,
+    computed: ComputedInputs,
+    template: SelectedPromptTemplate,
+    correction: string
+  ) {
+    return {
+      model: analysisModelFor(analysisType, this.provider.name),
+      // A correction points out mistakes of a previous draft
+      prompt: renderTemplate(
+        template.body,
+        analysisTemplateVariables(analysisType, cryptoData, marketData, userParameters, computed)
+      ) + correction,
+      maxTokens: 4000,
+      temperature: 0.1,
+      topP: 0.9,
+      context: { task: 'analysis', analysisType, cryptoData, marketData, parameters: userParameters, ...computed },
+    };
+  }
+
+  async generateExecutiveSummary(
+    fullAnalysis: string,
+    template: SelectedPromptTemplate = builtinTemplate(SUMMARY_TEMPLATE_KEY)
+  ): Promise<LlmResponse> {
+    try {
+      return await this.provider.complete({
+        model: summaryModelFor(this.provider.name), // lighter model for the summary
+        prompt: renderTemplate(template.body, { fullAnalysis }),
+        maxTokens: 200,
+        temperature: 0.1,
+        context: { task: 'summary', fullAnalysis },
+      });
+
+    } catch (error) {
+      logger.error('Error generating executive summary:', error);
+      throw new Error('Failed to generate executive summary');
+    }
+  }
+}
\ No newline at end of file
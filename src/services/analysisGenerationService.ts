@@ -0,0 +1,347 @@
+import { Analysis, AnalysisVersion, Job, Payment, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { IndicatorSnapshot } from '../utils/indicators.js';
+import { PortfolioMetrics } from '../utils/portfolioMetrics.js';
+import { ComparisonTable } from '../utils/comparison.js';
+import { mockCryptoData, mockMarketData } from '../utils/mockData.js';
+import { SUMMARY_TEMPLATE_KEY, templateLabel, templateRef } from '../utils/promptTemplates.js';
+import { annotateReport, checkReportFacts, factCheckCorrection } from '../utils/factCheck.js';
+import { AnalysisAiService } from './analysisAiService.js';
+import { DataService } from './dataService.js';
+import { IndicatorService } from './indicatorService.js';
+import { PortfolioService } from './portfolioService.js';
+import { ComparisonService } from './comparisonService.js';
+import { JobQueueService } from './jobQueueService.js';
+import { JobHandler } from './jobWorker.js';
+import { AnalysisProgressService } from './analysisProgressService.js';
+import { PromptTemplateService } from './promptTemplateService.js';
+import { LlmUsageService } from './llmUsageService.js';
+
+const prisma = new PrismaClient();
+
+export const GENERATE_ANALYSIS_JOB = 'generate_analysis';
+
+const generationKey = (analysisId: string) => `${GENERATE_ANALYSIS_JOB}:${analysisId}`;
+
+export class AnalysisGenerationService {
+  private analysisAiService: AnalysisAiService;
+  private dataService: DataService;
+  private indicatorService: IndicatorService;
+  private portfolioService: PortfolioService;
+  private comparisonService: ComparisonService;
+  private queue: JobQueueService;
+  private progress: AnalysisProgressService;
+  private promptTemplateService: PromptTemplateService;
+  private llmUsage: LlmUsageService;
+
+  constructor() {
+    this.analysisAiService = new AnalysisAiService();
+    this.dataService = new DataService();
+    this.indicatorService = new IndicatorService(this.dataService);
+    this.portfolioService = new PortfolioService(this.indicatorService);
+    this.comparisonService = new ComparisonService(this.dataService);
+    this.queue = new JobQueueService();
+    this.progress = new AnalysisProgressService();
+    this.promptTemplateService = new PromptTemplateService();
+    this.llmUsage = new LlmUsageService();
+  }
+
+  // Marks the analysis as processing and queues generation; repeated calls share one job
+  async enqueue(analysisId: string): Promise<Job> {
+    await prisma.analysis.update({
+      where: { id: analysisId },
+      data: { status: 'PROCESSING', progressStage: 'queued' },
+    });
+
+    return this.queue.enqueue(GENERATE_ANALYSIS_JOB, { analysisId }, { dedupeKey: generationKey(analysisId) });
+  }
+
+  // Queues generation for the analysis paid for by this payment, if any
+  async enqueueForPayment(paymentId: string): Promise<Job | null> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { purpose: true, analysisId: true },
+    });
+
+    // Regenerations are paid separately from the analysis they rerun
+    const analysis = payment?.purpose === 'REGENERATION' && payment.analysisId
+      ? await prisma.analysis.findUnique({ where: { id: payment.analysisId } })
+      : await prisma.analysis.findFirst({ where: { paymentId } });
+
+    if (!analysis) {
+      return null;
+    }
+
+    logger.info(`Queueing analysis ${analysis.id} after payment ${paymentId} completed`);
+    return this.enqueue(analysis.id);
+  }
+
+  // What clients poll while generation runs in the background
+  async getStatus(analysisId: string): Promise<any> {
+    const job = await this.queue.findByDedupeKey(generationKey(analysisId));
+
+    return job && {
+      id: job.id,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      nextAttemptAt: job.status === 'PENDING' ? job.runAt : null,
+      lastError: job.lastError,
+    };
+  }
+
+  async generate(analysisId: string): Promise<void> {
+    const analysis = await prisma.analysis.findUnique({
+      where: { id: analysisId },
+      include: { payment: true },
+    });
+
+    if (!analysis) {
+      throw new HttpError(404, 'Analysis not found');
+    }
+
+    if (analysis.payment?.status !== 'COMPLETED') {
+      throw new HttpError(400, 'Payment not completed');
+    }
+
+    const parameters = analysis.parameters as any;
+    const symbol = parameters?.symbol || parameters?.holdings?.[0]?.asset || parameters?.symbols?.[0] || 'BTC';
+
+    await this.progress.publishStage(analysisId, 'fetching_market_data');
+    const { cryptoData, marketData } = await this.loadMarketData(symbol);
+    const comparison = await this.loadComparison(analysis.type, parameters);
+
+    await this.progress.publishStage(analysisId, 'computing_indicators');
+    const indicators = await this.loadIndicators(analysis.type, symbol);
+    const portfolio = await this.loadPortfolio(analysis.type, parameters);
+
+    await this.progress.publishStage(analysisId, 'generating');
+
+    // Picked per generation so A/B weights apply across analyses, and recorded with the result
+    const [analysisTemplate, summaryTemplate] = await Promise.all([
+      this.promptTemplateService.selectTemplate(analysis.type),
+      this.promptTemplateService.selectTemplate(SUMMARY_TEMPLATE_KEY),
+    ]);
+
+    const provider = this.analysisAiService.providerName;
+    const writeReport = async (correction?: string) => {
+      const response = await this.analysisAiService.generateAnalysisStream(
+        analysis.type,
+        cryptoData,
+        marketData,
+        parameters,
+        { indicators, portfolio, comparison },
+        (text) => this.progress.publishText(analysisId, text),
+        analysisTemplate,
+        correction
+      );
+      await this.llmUsage.record(analysis, 'ANALYSIS', provider, response);
+      return response;
+    };
+    const checkFacts = (report: string) => checkReportFacts(
+      analysis.type,
+      report,
+      { cryptoData, marketData, comparison, portfolio },
+      config.factCheck.tolerances
+    );
+
+    let analysisResponse = await writeReport();
+
+    await this.progress.publishStage(analysisId, 'fact_checking');
+    let factCheck = checkFacts(analysisResponse.text);
+    const { policy, maxRegenerations } = config.factCheck;
+
+    for (let rewrite = 1; policy === 'regenerate' && factCheck.discrepancies.length && rewrite <= maxRegenerations; rewrite++) {
+      logger.warn(`Analysis ${analysisId} misquotes ${factCheck.discrepancies.length} figure(s); rewriting (${rewrite}/${maxRegenerations})`);
+      await this.progress.publishStage(analysisId, 'generating', 'Rewriting the report to correct misquoted figures');
+      analysisResponse = await writeReport(factCheckCorrection(factCheck.discrepancies));
+      await this.progress.publishStage(analysisId, 'fact_checking');
+      factCheck = checkFacts(analysisResponse.text);
+    }
+
+    if (factCheck.discrepancies.length && policy === 'fail') {
+      throw new Error(`Fact check failed: ${factCheck.discrepancies.length} figure(s) contradict the input data`);
+    }
+
+    await this.progress.publishStage(analysisId, 'summarizing');
+    const summaryResponse = await this.analysisAiService.generateExecutiveSummary(analysisResponse.text, summaryTemplate);
+    await this.llmUsage.record(analysis, 'SUMMARY', provider, summaryResponse);
+
+    const structuredOutput = await this.analysisAiService.generateStructuredOutput(
+      analysis.type,
+      analysisResponse.text,
+      cryptoData,
+      marketData,
+      parameters,
+      { indicators, portfolio, comparison },
+      (response) => this.llmUsage.record(analysis, 'STRUCTURED_OUTPUT', provider, response)
+    );
+
+    // Summary and structured output are written from the report as generated; the note is for readers
+    const result = {
+      fullAnalysis: factCheck.discrepancies.length
+        ? annotateReport(analysisResponse.text, factCheck.discrepancies)
+        : analysisResponse.text,
+      executiveSummary: summaryResponse.text,
+      structured: structuredOutput?.data ?? null,
+      ...(structuredOutput?.error && { structuredError: structuredOutput.error }),
+      factCheck,
+      cryptoData: { ...cryptoData },
+      marketData,
+      indicators,
+      portfolio,
+      comparison,
+      model: {
+        provider,
+        analysis: analysisResponse.model,
+        summary: summaryResponse.model,
+        structured: structuredOutput?.model ?? null,
+      },
+      promptVersion: [analysisTemplate, summaryTemplate].map(templateLabel).join(','),
+      promptTemplates: { analysis: templateRef(analysisTemplate), summary: templateRef(summaryTemplate) },
+      generatedAt: new Date().toISOString(),
+    };
+
+    const version = await prisma.$transaction(async (tx) => {
+      const { id: versionId, version } = await this.recordVersion(tx, analysis, result);
+      await this.llmUsage.attribute(tx, analysisId, versionId);
+
+      // The calls changed; the next backtest sweep evaluates the new ones
+      await tx.analysisBacktest.deleteMany({ where: { analysisId } });
+
+      await tx.analysis.update({
+        where: { id: analysisId },
+        data: {
+          status: 'COMPLETED',
+          result: { ...result, version },
+          completedAt: new Date(),
+        },
+      });
+
+      return version;
+    });
+
+    await this.progress.publishStage(analysisId, 'done');
+
+    logger.info(`Generated ${analysis.type} analysis ${analysisId} (version ${version})`);
+  }
+
+  // Keeps every generation; later ones are paid by a REGENERATION payment not yet used, or free
+  private async recordVersion(
+    tx: Prisma.TransactionClient,
+    analysis: Analysis & { payment: Payment | null },
+    result: any
+  ): Promise<AnalysisVersion> {
+    const latest = await tx.analysisVersion.findFirst({
+      where: { analysisId: analysis.id },
+      orderBy: { version: 'desc' },
+    });
+    let version = (latest?.version ?? 0) + 1;
+
+    // Completed before versions were kept: the result about to be replaced becomes version 1
+    const previous = analysis.result as any;
+    if (!latest && previous?.fullAnalysis) {
+      await tx.analysisVersion.create({
+        data: {
+          analysisId: analysis.id,
+          version: 1,
+          result: previous,
+          model: previous.model ?? undefined,
+          promptVersion: previous.promptVersion ?? 'unknown',
+          paymentId: analysis.paymentId,
+          price: analysis.price,
+          createdAt: analysis.completedAt ?? undefined,
+        },
+      });
+      version = 2;
+    }
+
+    const payment = version === 1
+      ? analysis.payment
+      : await tx.payment.findFirst({
+        where: { analysisId: analysis.id, purpose: 'REGENERATION', status: 'COMPLETED', analysisVersion: null },
+        orderBy: { completedAt: 'asc' },
+      });
+
+    return tx.analysisVersion.create({
+      data: {
+        analysisId: analysis.id,
+        version,
+        result: { ...result, version },
+        model: result.model,
+        promptVersion: result.promptVersion,
+        paymentId: payment?.id,
+        price: payment?.amount ?? 0,
+      },
+    });
+  }
+
+  private async loadMarketData(symbol: string) {
+    if (config.analysis.mockMarketData) {
+      return { cryptoData: mockCryptoData(symbol), marketData: mockMarketData() };
+    }
+
+    const [cryptoData, marketData, fearGreedIndex] = await Promise.all([
+      this.dataService.getCryptoData(symbol),
+      this.dataService.getMarketData(),
+      this.dataService.getFearGreedIndex(),
+    ]);
+
+    return { cryptoData, marketData: { ...marketData, fearGreedIndex } };
+  }
+
+  // Technical analyses are built on the indicators, so only they fail (and retry) without them
+  private async loadIndicators(analysisType: string, symbol: string): Promise<IndicatorSnapshot | null> {
+    try {
+      return await this.indicatorService.getIndicators(symbol);
+    } catch (error) {
+      if (analysisType === 'TECHNICAL_ANALYSIS') {
+        throw error;
+      }
+      logger.warn(`Generating without indicators for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  private async loadPortfolio(analysisType: string, parameters: any): Promise<PortfolioMetrics | null> {
+    if (analysisType !== 'PORTFOLIO_REVIEW') {
+      return null;
+    }
+    return this.portfolioService.analyze(this.portfolioService.validateHoldings(parameters?.holdings));
+  }
+
+  private async loadComparison(analysisType: string, parameters: any): Promise<ComparisonTable | null> {
+    if (analysisType !== 'COMPARISON') {
+      return null;
+    }
+    return this.comparisonService.compare(this.comparisonService.validateSymbols(parameters?.symbols));
+  }
+
+  get jobHandler(): JobHandler {
+    return {
+      run: async (payload) => {
+        try {
+          await this.generate(payload.analysisId);
+        } catch (error) {
+          await this.progress.publishStage(payload.analysisId, 'attempt_failed', error instanceof Error ? error.message : undefined);
+          throw error;
+        }
+      },
+      // Retries are exhausted: surface the failure to the client polling the analysis.
+      // A failed regeneration leaves the previous version in place.
+      onDead: async (payload) => {
+        const analysis = await prisma.analysis.findUnique({
+          where: { id: payload.analysisId },
+          select: { result: true },
+        });
+        await prisma.analysis.update({
+          where: { id: payload.analysisId },
+          data: { status: (analysis?.result as any)?.fullAnalysis ? 'COMPLETED' : 'FAILED' },
+        });
+        await this.progress.publishStage(payload.analysisId, 'failed');
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { PortfolioService } from './portfolioService.js';
+import { ComparisonService } from './comparisonService.js';
+
+const portfolioService = new PortfolioService();
+const comparisonService = new ComparisonService();
+
+// Checks and normalizes type-specific parameters up front, so a paid analysis cannot fail on bad input
+export const prepareAnalysisParameters = (type: string, parameters: any): any => {
+  if (type === 'PORTFOLIO_REVIEW') {
+    return { ...parameters, holdings: portfolioService.validateHoldings(parameters?.holdings) };
+  }
+  if (type === 'COMPARISON') {
+    return { ...parameters, symbols: comparisonService.validateSymbols(parameters?.symbols) };
+  }
+  return parameters;
+};
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { EventEmitter } from 'events';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { EventStream } from '../utils/sse.js';
+
+const prisma = new PrismaClient();
+
+export type AnalysisStage =
+  | 'queued'
+  | 'fetching_market_data'
+  | 'computing_indicators'
+  | 'generating'
+  | 'fact_checking'
+  | 'summarizing'
+  | 'attempt_failed'
+  | 'done'
+  | 'failed';
+
+const FINAL_STAGES: AnalysisStage[] = ['done', 'failed'];
+
+// Subscribers in other processes only see stored stages, so they re-read them this often
+const STORED_STAGE_POLL_MS = 3000;
+
+// Shared by every instance so the job worker and the SSE endpoints in this process meet
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+// Report text generated so far, so late subscribers can catch up
+const partialText = new Map<string, string>();
+
+export class AnalysisProgressService {
+  async publishStage(analysisId: string, stage: AnalysisStage, detail?: string): Promise<void> {
+    if (stage === 'generating') {
+      partialText.set(analysisId, '');
+    }
+    if (FINAL_STAGES.includes(stage)) {
+      partialText.delete(analysisId);
+    }
+
+    emitter.emit(analysisId, 'stage', { stage, ...(detail && { detail }), at: new Date().toISOString() });
+
+    await prisma.analysis.update({
+      where: { id: analysisId },
+      data: { progressStage: stage },
+    }).catch((error) => logger.warn(`Could not store progress of analysis ${analysisId}:`, error));
+  }
+
+  publishText(analysisId: string, text: string): void {
+    partialText.set(analysisId, (partialText.get(analysisId) || '') + text);
+    emitter.emit(analysisId, 'token', { text });
+  }
+
+  // Replays the current state, then forwards live events until the analysis finishes
+  async streamTo(analysisId: string, stream: EventStream): Promise<void> {
+    const analysis = await prisma.analysis.findUniqueOrThrow({
+      where: { id: analysisId },
+      select: { status: true, progressStage: true },
+    });
+
+    const finish = (stage: AnalysisStage) => {
+      stream.send('stage', { stage, at: new Date().toISOString() });
+      stream.close();
+    };
+
+    if (analysis.status === 'COMPLETED') {
+      return finish('done');
+    }
+    if (analysis.status === 'FAILED') {
+      return finish('failed');
+    }
+
+    let lastStage = analysis.progressStage;
+    stream.send('stage', { stage: lastStage || (analysis.status === 'PROCESSING' ? 'queued' : 'awaiting_payment') });
+
+    const buffered = partialText.get(analysisId);
+    if (buffered) {
+      stream.send('token', { text: buffered });
+    }
+
+    const listener = (event: string, data: any) => {
+      stream.send(event, data);
+
+      if (event === 'stage') {
+        lastStage = data.stage;
+        if (FINAL_STAGES.includes(data.stage)) {
+          stream.close();
+        }
+      }
+    };
+    emitter.on(analysisId, listener);
+
+    // Picks up progress made by a worker in another process (stages only, no text)
+    const poll = setInterval(async () => {
+      try {
+        const current = await prisma.analysis.findUnique({
+          where: { id: analysisId },
+          select: { status: true, progressStage: true },
+        });
+
+        if (current?.status === 'COMPLETED') {
+          finish('done');
+        } else if (current?.status === 'FAILED') {
+          finish('failed');
+        } else if (current?.progressStage && current.progressStage !== lastStage) {
+          lastStage = current.progressStage;
+          stream.send('stage', { stage: current.progressStage });
+        }
+      } catch (error) {
+        logger.warn(`Progress poll failed for analysis ${analysisId}:`, error);
+      }
+    }, STORED_STAGE_POLL_MS);
+
+    stream.onClose(() => {
+      emitter.off(analysisId, listener);
+      clearInterval(poll);
+    });
+  }
+}
\ No newline at end of file
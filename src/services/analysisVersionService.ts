@@ -0,0 +1,189 @@
+import { Analysis, PrismaClient } from '@prisma/client';
+import { analysisPrice, config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { VersionDiff, diffResults } from '../utils/versionDiff.js';
+import { AnalysisGenerationService } from './analysisGenerationService.js';
+import { OrganizationService } from './organizationService.js';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const listFields = {
+  id: true,
+  version: true,
+  model: true,
+  promptVersion: true,
+  price: true,
+  createdAt: true,
+};
+
+export interface RegenerationQuote {
+  price: number;
+  free: boolean;
+  freeUntil: string | null;
+  freeRegenerationsLeft: number;
+}
+
+export class AnalysisVersionService {
+  private analysisGenerationService: AnalysisGenerationService;
+  private organizationService: OrganizationService;
+
+  constructor() {
+    this.analysisGenerationService = new AnalysisGenerationService();
+    this.organizationService = new OrganizationService();
+  }
+
+  async listVersions(userId: string, analysisId: string): Promise<{ versions: any[]; regeneration: RegenerationQuote }> {
+    const analysis = await this.findReadable(userId, analysisId);
+
+    const versions = await prisma.analysisVersion.findMany({
+      where: { analysisId },
+      select: listFields,
+      orderBy: { version: 'desc' },
+    });
+
+    return { versions, regeneration: await this.quote(analysis) };
+  }
+
+  async getVersion(userId: string, analysisId: string, version: number): Promise<any> {
+    await this.findReadable(userId, analysisId);
+    return this.findVersion(analysisId, version);
+  }
+
+  // Defaults to the previous version against the latest
+  async diffVersions(userId: string, analysisId: string, from?: number, to?: number): Promise<VersionDiff> {
+    await this.findReadable(userId, analysisId);
+
+    const latest = await prisma.analysisVersion.findFirst({
+      where: { analysisId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    if (!latest) {
+      throw new HttpError(404, 'Analysis has no versions yet');
+    }
+
+    const toVersion = to ?? latest.version;
+    const fromVersion = from ?? toVersion - 1;
+
+    if (fromVersion === toVersion) {
+      throw new HttpError(400, 'Choose two different versions to compare');
+    }
+
+    const [a, b] = await Promise.all([this.findVersion(analysisId, fromVersion), this.findVersion(analysisId, toVersion)]);
+    return diffResults(a.version, a.result, b.version, b.result);
+  }
+
+  // Free within the policy's window, otherwise a pending payment that queues generation once completed
+  async requestRegeneration(userId: string, analysisId: string): Promise<any> {
+    const analysis = await this.findReadable(userId, analysisId);
+
+    if (analysis.status !== 'COMPLETED') {
+      throw new HttpError(409, 'Only completed analyses can be regenerated');
+    }
+
+    // A paid regeneration whose generation failed is rerun without charging again
+    const unused = await prisma.payment.findFirst({
+      where: { analysisId, purpose: 'REGENERATION', status: 'COMPLETED', analysisVersion: null },
+    });
+    const quote = await this.quote(analysis);
+
+    if (unused || quote.free) {
+      const job = await this.analysisGenerationService.enqueue(analysisId);
+      logger.info(`User ${userId} regenerating analysis ${analysisId} (${unused ? `payment ${unused.id}` : 'free'})`);
+
+      return {
+        analysisId,
+        status: 'processing',
+        price: unused ? unused.amount : 0,
+        jobId: job.id,
+        statusUrl: `/api/analysis/${analysisId}/status`,
+      };
+    }
+
+    // Ordering twice before paying returns the same payment
+    const payment = await prisma.payment.findFirst({
+      where: { analysisId, purpose: 'REGENERATION', status: 'PENDING' },
+    }) ?? await prisma.payment.create({
+      data: {
+        userId,
+        analysisId,
+        organizationId: analysis.organizationId,
+        amount: quote.price,
+        currency: 'USD',
+        status: 'PENDING',
+        purpose: 'REGENERATION',
+      },
+    });
+
+    logger.info(`Created regeneration payment ${payment.id} for analysis ${analysisId}`);
+
+    return {
+      analysisId,
+      paymentId: payment.id,
+      price: payment.amount,
+      status: 'pending_payment',
+    };
+  }
+
+  private async quote(analysis: Analysis): Promise<RegenerationQuote> {
+    const { freeWindowHours, maxFree, priceRatio } = config.regeneration;
+
+    const [first, freeUsed] = await Promise.all([
+      prisma.analysisVersion.findFirst({
+        where: { analysisId: analysis.id },
+        orderBy: { version: 'asc' },
+        select: { createdAt: true },
+      }),
+      prisma.analysisVersion.count({ where: { analysisId: analysis.id, version: { gt: 1 }, paymentId: null } }),
+    ]);
+
+    const generatedAt = first?.createdAt ?? analysis.completedAt;
+    const freeUntil = generatedAt ? new Date(generatedAt.getTime() + freeWindowHours * HOUR_MS) : null;
+    const freeRegenerationsLeft = freeUntil && freeUntil > new Date() ? Math.max(0, maxFree - freeUsed) : 0;
+    const price = Math.round((analysisPrice(analysis.type) ?? Number(analysis.price)) * priceRatio * 100) / 100;
+
+    return {
+      price: freeRegenerationsLeft > 0 ? 0 : price,
+      free: freeRegenerationsLeft > 0,
+      freeUntil: freeRegenerationsLeft > 0 ? freeUntil!.toISOString() : null,
+      freeRegenerationsLeft,
+    };
+  }
+
+  // Own analyses, plus those shared with the user's organizations
+  private async findReadable(userId: string, analysisId: string): Promise<Analysis> {
+    const organizationIds = await this.organizationService.getOrganizationIds(userId);
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
+      },
+    });
+
+    if (!analysis) {
+      throw new HttpError(404, 'Analysis not found');
+    }
+
+    return analysis;
+  }
+
+  private async findVersion(analysisId: string, version: number) {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new HttpError(400, 'Versions are numbered from 1');
+    }
+
+    const found = await prisma.analysisVersion.findUnique({
+      where: { analysisId_version: { analysisId, version } },
+    });
+
+    if (!found) {
+      throw new HttpError(404, `Version ${version} not found`);
+    }
+
+    return found;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+export const API_KEY_PREFIX = 'cak_';
+
+export const API_KEY_SCOPES = ['analysis:create', 'analysis:read', 'payments:read'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Avoid a write on every request; last-used precision of a minute is plenty
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const publicFields = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+};
+
+export const isApiKey = (token: string) => token.startsWith(API_KEY_PREFIX);
+
+export class ApiKeyService {
+  // Returns the plaintext key once; only its hash is stored
+  async createKey(
+    userId: string,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt?: Date
+  ): Promise<{ key: string; apiKey: any }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name,
+        prefix: key.substring(0, API_KEY_PREFIX.length + 8),
+        keyHash: hashKey(key),
+        scopes: Array.from(new Set(scopes)),
+        expiresAt,
+      },
+      select: publicFields,
+    });
+
+    logger.info(`Created API key ${apiKey.id} for user ${userId}`);
+    return { key, apiKey };
+  }
+
+  async listKeys(userId: string): Promise<any[]> {
+    return prisma.apiKey.findMany({
+      where: { userId, revokedAt: null },
+      select: publicFields,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeKey(userId: string, keyId: string): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id: keyId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Revoked API key ${keyId} for user ${userId}`);
+    }
+    return result.count > 0;
+  }
+
+  async verifyKey(key: string): Promise<{ userId: string; apiKeyId: string; scopes: string[] }> {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashKey(key) },
+    });
+
+    if (!apiKey || apiKey.revokedAt) {
+      throw new HttpError(401, 'Invalid API key');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      throw new HttpError(401, 'API key has expired');
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prisma.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    return { userId: apiKey.userId, apiKeyId: apiKey.id, scopes: apiKey.scopes };
+  }
+}
\ No newline at end of file
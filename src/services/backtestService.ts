@@ -0,0 +1,184 @@
+import { Analysis, AnalysisType, Job, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { PricePoint } from '../utils/indicators.js';
+import { mockHistoricalData } from '../utils/mockData.js';
+import { BACKTESTED_TYPES, OutcomeCount, buildScoreboard, extractPriceCall, replayPriceCall } from '../utils/backtest.js';
+import { DataService } from './dataService.js';
+import { JobQueueService } from './jobQueueService.js';
+import { JobHandler } from './jobWorker.js';
+
+const prisma = new PrismaClient();
+
+export const BACKTEST_SWEEP_JOB = 'backtest_sweep';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScoreboardFilters {
+  symbol?: string;
+  from?: Date;
+  to?: Date;
+  analysisType?: AnalysisType;
+}
+
+export class BacktestService {
+  private dataService: DataService;
+  private queue: JobQueueService;
+
+  constructor(dataService: DataService = new DataService()) {
+    this.dataService = dataService;
+    this.queue = new JobQueueService();
+  }
+
+  // One sweep per interval, however many processes run the scheduler; null when this interval's sweep exists
+  async enqueueSweep(now: Date = new Date()): Promise<Job | null> {
+    const window = Math.floor(now.getTime() / (config.backtests.sweepIntervalMinutes * 60 * 1000));
+    const dedupeKey = `${BACKTEST_SWEEP_JOB}:${window}`;
+
+    // The queue reruns finished jobs under a reused key, so a completed sweep must be checked for first
+    if (await this.queue.findByDedupeKey(dedupeKey)) {
+      return null;
+    }
+    return this.queue.enqueue(BACKTEST_SWEEP_JOB, {}, { dedupeKey });
+  }
+
+  // Evaluates analyses without a backtest and re-evaluates open calls; returns how many were evaluated
+  async sweep(now: Date = new Date()): Promise<number> {
+    const history = new Map<string, PricePoint[]>();
+    let cursor: string | undefined;
+    let evaluated = 0;
+
+    for (;;) {
+      const batch: Analysis[] = await prisma.analysis.findMany({
+        where: {
+          type: { in: [...BACKTESTED_TYPES] },
+          status: 'COMPLETED',
+          completedAt: { gte: new Date(now.getTime() - config.backtests.lookbackDays * DAY_MS) },
+          OR: [{ backtest: { is: null } }, { backtest: { is: { outcome: 'OPEN' } } }],
+        },
+        orderBy: { id: 'asc' },
+        take: config.backtests.batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      for (const analysis of batch) {
+        try {
+          if (await this.evaluate(analysis, history, now)) {
+            evaluated++;
+          }
+        } catch (error) {
+          logger.warn(`Could not backtest analysis ${analysis.id}:`, error);
+        }
+      }
+
+      if (batch.length < config.backtests.batchSize) {
+        break;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+
+    return evaluated;
+  }
+
+  // Hit rates over resolved calls, filtered by symbol, analysis type and when the calls were made
+  async getScoreboard(filters: ScoreboardFilters): Promise<any> {
+    if (filters.from && filters.to && filters.from > filters.to) {
+      throw new HttpError(400, '`from` must be before `to`');
+    }
+
+    const where: Prisma.AnalysisBacktestWhereInput = {
+      ...(filters.symbol ? { symbol: filters.symbol.toUpperCase() } : {}),
+      ...(filters.analysisType ? { analysisType: filters.analysisType } : {}),
+      ...(filters.from || filters.to ? { calledAt: { gte: filters.from, lte: filters.to } } : {}),
+    };
+
+    const groups = await prisma.analysisBacktest.groupBy({
+      by: ['analysisType', 'model', 'outcome'],
+      where,
+      _count: { _all: true },
+      _avg: { hoursToOutcome: true },
+    });
+
+    const counts: OutcomeCount[] = groups.map((group) => ({
+      analysisType: group.analysisType,
+      model: group.model,
+      outcome: group.outcome,
+      count: group._count._all,
+      avgHours: group._avg.hoursToOutcome,
+    }));
+
+    return {
+      filters: {
+        symbol: filters.symbol?.toUpperCase() ?? null,
+        analysisType: filters.analysisType ?? null,
+        from: filters.from?.toISOString() ?? null,
+        to: filters.to?.toISOString() ?? null,
+      },
+      ...buildScoreboard(counts),
+    };
+  }
+
+  get jobHandler(): JobHandler {
+    return {
+      run: async () => {
+        const evaluated = await this.sweep();
+        logger.info(`Backtest sweep evaluated ${evaluated} analyses`);
+      },
+    };
+  }
+
+  // Returns false when the history does not reach back to the call yet, so it is tried again next sweep
+  private async evaluate(analysis: Analysis, history: Map<string, PricePoint[]>, now: Date): Promise<boolean> {
+    const result = analysis.result as any;
+    const parameters = analysis.parameters as any;
+    const symbol = String(result?.cryptoData?.symbol || parameters?.symbol || '').toUpperCase();
+    const calledAt = result?.generatedAt ? new Date(result.generatedAt) : analysis.completedAt!;
+    const call = symbol ? extractPriceCall(analysis.type, result, config.backtests.defaultHorizonDays) : null;
+
+    const base = {
+      analysisType: analysis.type,
+      symbol,
+      model: result?.model?.analysis || 'unknown',
+      calledAt,
+      evaluatedAt: now,
+    };
+
+    if (!call) {
+      const data = { ...base, outcome: 'NO_CALL' as const, targets: [] };
+      await prisma.analysisBacktest.upsert({ where: { analysisId: analysis.id }, create: { analysisId: analysis.id, ...data }, update: data });
+      return true;
+    }
+
+    if (!history.has(symbol)) {
+      history.set(symbol, config.analysis.mockMarketData
+        ? mockHistoricalData(symbol, config.backtests.lookbackDays)
+        : await this.dataService.getHistoricalData(symbol, config.backtests.lookbackDays));
+    }
+
+    const points = history.get(symbol)!;
+    if (!points.length || points[0].timestamp > calledAt.getTime()) {
+      logger.warn(`No price history covering analysis ${analysis.id} (${symbol} at ${calledAt.toISOString()})`);
+      return false;
+    }
+
+    const replay = replayPriceCall(call, calledAt, points, now);
+    const data = {
+      ...base,
+      direction: call.direction,
+      referencePrice: call.referencePrice,
+      entryLow: call.entry?.low ?? null,
+      entryHigh: call.entry?.high ?? null,
+      stopLoss: call.stopLoss,
+      targets: replay.targets,
+      entryHitAt: replay.entryHitAt,
+      stopHitAt: replay.stopHitAt,
+      outcome: replay.outcome,
+      hoursToOutcome: replay.hoursToOutcome,
+      horizonEndsAt: replay.horizonEndsAt,
+    };
+
+    await prisma.analysisBacktest.upsert({ where: { analysisId: analysis.id }, create: { analysisId: analysis.id, ...data }, update: data });
+    return true;
+  }
+}
\ No newline at end of file
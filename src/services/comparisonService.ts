@@ -0,0 +1,45 @@
+import { config } from '../utils/config.js';
+import { HttpError } from '../utils/errors.js';
+import { KNOWN_ASSETS } from '../utils/assets.js';
+import { COMPARISON_MAX_SYMBOLS, COMPARISON_MIN_SYMBOLS, ComparisonTable, buildComparisonTable } from '../utils/comparison.js';
+import { mockCryptoData } from '../utils/mockData.js';
+import { DataService } from './dataService.js';
+
+export class ComparisonService {
+  private dataService: DataService;
+
+  constructor(dataService: DataService = new DataService()) {
+    this.dataService = dataService;
+  }
+
+  // Checks the symbols before a comparison is ordered; returns them upper-cased
+  validateSymbols(symbols: any): string[] {
+    if (!Array.isArray(symbols)) {
+      throw new HttpError(400, `A comparison needs between ${COMPARISON_MIN_SYMBOLS} and ${COMPARISON_MAX_SYMBOLS} symbols`);
+    }
+
+    const normalized = symbols.map((symbol) => String(symbol).toUpperCase());
+
+    if (new Set(normalized).size !== normalized.length) {
+      throw new HttpError(400, 'Each symbol may appear only once');
+    }
+    if (normalized.length < COMPARISON_MIN_SYMBOLS || normalized.length > COMPARISON_MAX_SYMBOLS) {
+      throw new HttpError(400, `A comparison needs between ${COMPARISON_MIN_SYMBOLS} and ${COMPARISON_MAX_SYMBOLS} symbols`);
+    }
+
+    const unknown = normalized.find((symbol) => !KNOWN_ASSETS[symbol]);
+    if (unknown) {
+      throw new HttpError(400, `Unsupported asset: ${unknown}`);
+    }
+
+    return normalized;
+  }
+
+  async compare(symbols: string[]): Promise<ComparisonTable> {
+    const assets = await Promise.all(symbols.map((symbol) =>
+      config.analysis.mockMarketData ? mockCryptoData(symbol) : this.dataService.getCryptoData(symbol)
+    ));
+
+    return buildComparisonTable(assets);
+  }
+}
\ No newline at end of file
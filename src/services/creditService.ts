@@ -0,0 +1,106 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+// Prepaid balance that lets analyses be ordered without a payment per analysis (scheduled runs)
+export class CreditService {
+  async getBalance(userId: string, page: number, limit: number): Promise<any> {
+    const [user, transactions, total] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { creditBalance: true } }),
+      prisma.creditTransaction.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.creditTransaction.count({ where: { userId } }),
+    ]);
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return {
+      balance: user.creditBalance,
+      currency: 'USD',
+      transactions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Pending payment that credits the balance once completed
+  async createTopUp(userId: string, amount: number): Promise<any> {
+    if (!(amount >= config.credits.minTopUp && amount <= config.credits.maxTopUp)) {
+      throw new HttpError(400, `Top-ups must be between ${config.credits.minTopUp} and ${config.credits.maxTopUp} USD`);
+    }
+
+    const payment = await prisma.payment.create({
+      data: {
+        userId,
+        amount,
+        currency: 'USD',
+        status: 'PENDING',
+        purpose: 'CREDIT_TOP_UP',
+      },
+    });
+
+    logger.info(`Created credit top-up payment ${payment.id} for user ${userId}`);
+    return { paymentId: payment.id, amount, currency: 'USD', status: 'pending_payment' };
+  }
+
+  // Credits a completed top-up payment; safe to call for any payment and more than once
+  async applyTopUp(paymentId: string): Promise<void> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { creditTransaction: true },
+    });
+
+    if (!payment || payment.purpose !== 'CREDIT_TOP_UP' || payment.status !== 'COMPLETED' || payment.creditTransaction) {
+      return;
+    }
+
+    try {
+      await prisma.$transaction([
+        prisma.creditTransaction.create({
+          data: { userId: payment.userId, amount: payment.amount, reason: 'TOP_UP', paymentId },
+        }),
+        prisma.user.update({
+          where: { id: payment.userId },
+          data: { creditBalance: { increment: payment.amount } },
+        }),
+      ]);
+    } catch (error) {
+      // A concurrent call (webhook retry) credited it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return;
+      }
+      throw error;
+    }
+
+    logger.info(`Credited ${payment.amount} USD to user ${payment.userId} from payment ${paymentId}`);
+  }
+
+  // Takes `amount` from the balance inside the caller's transaction, which a 402 rolls back
+  async charge(tx: Prisma.TransactionClient, userId: string, amount: number, paymentId: string): Promise<void> {
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, creditBalance: { gte: amount } },
+      data: { creditBalance: { decrement: amount } },
+    });
+
+    if (count === 0) {
+      throw new HttpError(402, `Credit balance below ${amount} USD`);
+    }
+
+    await tx.creditTransaction.create({
+      data: { userId, amount: -amount, reason: 'SCHEDULED_ANALYSIS', paymentId },
+    });
+  }
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import axios from 'axios';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { PricePoint } from '../utils/indicators.js';
+import { coingeckoId } from '../utils/assets.js';
 
 export interface CryptoData {
   symbol: string;
@@ -68,7 +70,7 @@ export class DataService {
   private async getCryptoDataFromCoinGecko(symbol: string): Promise<CryptoData> {
     try {
       const response = await axios.get(
-        `https://api.coingecko.com/api/v3/coins/${symbol.toLowerCase()}`,
+        `https://api.coingecko.com/api/v3/coins/${coingeckoId(symbol)}`,
         {
           headers: {
             'x-cg-demo-api-key': config.external.coingeckoApiKey,
@@ -135,15 +137,16 @@ export class DataService {
     }
   }
 
-  async getHistoricalData(symbol: string, days: number = 30): Promise<any[]> {
+  async getHistoricalData(symbol: string, days: number = 30): Promise<PricePoint[]> {
     try {
       const response = await axios.get(
-        `https://api.coingecko.com/api/v3/coins/${symbol.toLowerCase()}/market_chart`,
+        `https://api.coingecko.com/api/v3/coins/${coingeckoId(symbol)}/market_chart`,
         {
+          // Granularity is automatic (hourly for 2-90 days); an explicit hourly interval needs a paid plan
           params: {
             vs_currency: 'usd',
             days,
-            interval: days > 90 ? 'daily' : 'hourly',
+            ...(days > 90 && { interval: 'daily' }),
           },
           headers: {
             'x-cg-demo-api-key': config.external.coingeckoApiKey,
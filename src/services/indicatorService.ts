@@ -0,0 +1,48 @@
+import { config } from '../utils/config.js';
+import { HttpError } from '../utils/errors.js';
+import { Candle, IndicatorSnapshot, computeIndicators, toCandles } from '../utils/indicators.js';
+import { mockHistoricalData } from '../utils/mockData.js';
+import { DataService } from './dataService.js';
+
+// 90 days is the longest window the history API's automatic granularity keeps hourly, enough for SMA 50 and MACD on daily candles
+const HISTORY_DAYS = 90;
+
+// Daily candles barely move within minutes; avoids refetching history for every request
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, { candles: Candle[]; expiresAt: number }>();
+
+export class IndicatorService {
+  private dataService: DataService;
+
+  constructor(dataService: DataService = new DataService()) {
+    this.dataService = dataService;
+  }
+
+  // Daily OHLC candles over the history window, oldest first
+  async getCandles(symbol: string): Promise<Candle[]> {
+    const key = symbol.toUpperCase();
+    const cached = cache.get(key);
+
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.candles;
+    }
+
+    const points = config.analysis.mockMarketData
+      ? mockHistoricalData(key, HISTORY_DAYS)
+      : await this.dataService.getHistoricalData(symbol, HISTORY_DAYS);
+
+    if (points.length === 0) {
+      throw new HttpError(404, `No price history available for ${key}`);
+    }
+
+    const candles = toCandles(points);
+    cache.set(key, { candles, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    return candles;
+  }
+
+  async getIndicators(symbol: string): Promise<IndicatorSnapshot> {
+    return computeIndicators(await this.getCandles(symbol));
+  }
+}
\ No newline at end of file
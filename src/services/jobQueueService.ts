@@ -0,0 +1,211 @@
+import { Job, JobStatus, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+export interface EnqueueOptions {
+  dedupeKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+// Exponential backoff: base, 2x base, 4x base ... capped
+export const retryDelaySeconds = (attempts: number) =>
+  Math.min(config.jobs.backoffBaseSeconds * 2 ** Math.max(0, attempts - 1), config.jobs.backoffMaxSeconds);
+
+// Jobs live in Postgres; workers claim them with SKIP LOCKED so several processes can share the table
+export class JobQueueService {
+  // With a dedupe key, a job that is still pending or running is returned instead of a duplicate
+  async enqueue(type: string, payload: Prisma.InputJsonValue, options: EnqueueOptions = {}): Promise<Job> {
+    const data = {
+      type,
+      payload,
+      status: 'PENDING' as JobStatus,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? config.jobs.maxAttempts,
+      runAt: options.runAt ?? new Date(),
+      lockedAt: null,
+      lockedBy: null,
+      lastError: null,
+      completedAt: null,
+    };
+
+    if (!options.dedupeKey) {
+      const job = await prisma.job.create({ data });
+      logger.info(`Enqueued ${type} job ${job.id}`);
+      return job;
+    }
+
+    const existing = await prisma.job.findUnique({ where: { dedupeKey: options.dedupeKey } });
+
+    if (existing && (existing.status === 'PENDING' || existing.status === 'RUNNING')) {
+      return existing;
+    }
+
+    // A finished or dead job under the same key runs again; attempt numbering continues
+    const job = existing
+      ? await prisma.job.update({
+        where: { id: existing.id },
+        data: { ...data, attempts: existing.attempts, maxAttempts: existing.attempts + data.maxAttempts },
+      })
+      : await prisma.job.create({ data: { ...data, dedupeKey: options.dedupeKey } });
+
+    logger.info(`Enqueued ${type} job ${job.id} (${options.dedupeKey})`);
+    return job;
+  }
+
+  // Claims the next due job, or one whose worker stopped reporting back
+  async claimNext(workerId: string): Promise<Job | null> {
+    const staleBefore = new Date(Date.now() - config.jobs.lockTimeoutMinutes * 60 * 1000);
+
+    const claimed = await prisma.$queryRaw<Job[]>`
+      UPDATE "jobs"
+      SET "status" = 'RUNNING', "lockedAt" = NOW(), "lockedBy" = ${workerId},
+          "attempts" = "attempts" + 1, "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "jobs"
+        WHERE ("status" = 'PENDING' AND "runAt" <= NOW())
+           OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+        ORDER BY "runAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *`;
+
+    const job = claimed[0];
+    if (!job) {
+      return null;
+    }
+
+    // Close out an attempt abandoned by a crashed worker
+    await prisma.jobAttempt.updateMany({
+      where: { jobId: job.id, finishedAt: null },
+      data: { finishedAt: new Date(), error: 'Worker stopped before finishing' },
+    });
+
+    await prisma.jobAttempt.create({
+      data: { jobId: job.id, attempt: job.attempts, workerId },
+    });
+
+    return job;
+  }
+
+  async complete(job: Job): Promise<void> {
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.job.update({
+        where: { id: job.id },
+        data: { status: 'COMPLETED', completedAt: now, lockedAt: null, lockedBy: null, lastError: null },
+      }),
+      prisma.jobAttempt.updateMany({
+        where: { jobId: job.id, attempt: job.attempts, finishedAt: null },
+        data: { finishedAt: now },
+      }),
+    ]);
+  }
+
+  // Schedules a retry with backoff, or dead-letters the job once attempts run out
+  async fail(job: Job, error: unknown): Promise<JobStatus> {
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+    const dead = job.attempts >= job.maxAttempts;
+
+    await prisma.$transaction([
+      prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: dead ? 'DEAD' : 'PENDING',
+          runAt: dead ? job.runAt : new Date(now.getTime() + retryDelaySeconds(job.attempts) * 1000),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: message,
+        },
+      }),
+      prisma.jobAttempt.updateMany({
+        where: { jobId: job.id, attempt: job.attempts, finishedAt: null },
+        data: { finishedAt: now, error: message },
+      }),
+    ]);
+
+    if (dead) {
+      logger.error(`Job ${job.id} (${job.type}) dead after ${job.attempts} attempts: ${message}`);
+    } else {
+      logger.warn(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying: ${message}`);
+    }
+
+    return dead ? 'DEAD' : 'PENDING';
+  }
+
+  async findByDedupeKey(dedupeKey: string): Promise<Job | null> {
+    return prisma.job.findUnique({ where: { dedupeKey } });
+  }
+
+  async listJobs(filters: { status?: JobStatus; type?: string }, page: number, limit: number): Promise<any> {
+    const where: Prisma.JobWhereInput = {
+      ...(filters.status && { status: filters.status }),
+      ...(filters.type && { type: filters.type }),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.job.count({ where }),
+    ]);
+
+    return {
+      jobs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getJob(jobId: string): Promise<any> {
+    const job = await prisma.job.findUnique({
+      where: { id: jobId },
+      include: { attemptHistory: { orderBy: { attempt: 'asc' } } },
+    });
+
+    if (!job) {
+      throw new HttpError(404, 'Job not found');
+    }
+
+    return job;
+  }
+
+  // Gives a dead job a fresh set of attempts; its history is kept
+  async retryDeadJob(jobId: string): Promise<Job> {
+    const job = await prisma.job.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      throw new HttpError(404, 'Job not found');
+    }
+
+    const result = await prisma.job.updateMany({
+      where: { id: jobId, status: 'DEAD' },
+      data: {
+        status: 'PENDING',
+        maxAttempts: job.attempts + config.jobs.maxAttempts,
+        runAt: new Date(),
+        lastError: null,
+      },
+    });
+
+    if (result.count === 0) {
+      throw new HttpError(400, 'Only dead jobs can be retried');
+    }
+
+    logger.info(`Dead job ${jobId} requeued`);
+    return prisma.job.findUniqueOrThrow({ where: { id: jobId } });
+  }
+}
\ No newline at end of file
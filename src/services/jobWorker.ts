@@ -0,0 +1,122 @@
+import os from 'os';
+import crypto from 'crypto';
+import { Job } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { JobQueueService } from './jobQueueService.js';
+
+export interface JobHandler {
+  run(payload: any, job: Job): Promise<void>;
+  // Called once the job has used up its attempts
+  onDead?(payload: any, error: unknown, job: Job): Promise<void>;
+}
+
+// Polls the queue and runs up to `concurrency` jobs at a time in this process
+export class JobWorker {
+  private queue: JobQueueService;
+  private handlers: Record<string, JobHandler>;
+  private workerId: string;
+  private active = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private pollFailures = 0; // consecutive polls that failed to reach the queue
+
+  constructor(handlers: Record<string, JobHandler>, queue: JobQueueService = new JobQueueService()) {
+    this.handlers = handlers;
+    this.queue = queue;
+    this.workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Job worker ${this.workerId} started (concurrency ${config.jobs.concurrency})`);
+    this.schedulePoll(0);
+  }
+
+  // Stops claiming new jobs and waits for the ones in flight
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await Promise.allSettled(Array.from(this.active));
+    logger.info(`Job worker ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running || this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll()
+        .then(() => {
+          this.pollFailures = 0;
+        })
+        .catch((error) => {
+          // Keep polling through database outages, backing off like failed jobs do
+          this.pollFailures++;
+          const retryMs = Math.min(config.jobs.pollIntervalMs * 2 ** this.pollFailures, config.jobs.backoffMaxSeconds * 1000);
+          logger.error(`Job worker poll error, retrying in ${retryMs}ms:`, error);
+          this.schedulePoll(retryMs);
+        });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let claimedAny = false;
+
+    while (this.running && this.active.size < config.jobs.concurrency) {
+      const job = await this.queue.claimNext(this.workerId);
+      if (!job) {
+        break;
+      }
+
+      claimedAny = true;
+      const execution = this.execute(job).finally(() => {
+        this.active.delete(execution);
+        this.schedulePoll(0);
+      });
+      this.active.add(execution);
+    }
+
+    // Idle or full: check again later; a finishing job also triggers a poll
+    this.schedulePoll(claimedAny ? config.jobs.pollIntervalMs / 4 : config.jobs.pollIntervalMs);
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers[job.type];
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      // Reclaimed from a crashed worker after its last attempt: dead-letter it instead of running it again
+      if (job.attempts > job.maxAttempts) {
+        throw new Error('Worker stopped before finishing the last attempt');
+      }
+
+      await handler.run(job.payload, job);
+      await this.queue.complete(job);
+    } catch (error) {
+      try {
+        const status = await this.queue.fail(job, error);
+
+        if (status === 'DEAD' && handler?.onDead) {
+          await handler.onDead(job.payload, error, job);
+        }
+      } catch (bookkeepingError) {
+        logger.error(`Failed to record failure of job ${job.id}:`, bookkeepingError);
+      }
+    }
+  }
+}
\ No newline at end of file
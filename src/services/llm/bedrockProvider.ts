@@ -0,0 +1,185 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
+} from '@aws-sdk/client-bedrock-runtime';
+import { config } from '../../utils/config.js';
+import { logger } from '../../utils/logger.js';
+import { LlmProvider, LlmRequest, LlmResponse, LlmUsage } from './types.js';
+
+// Each model family on Bedrock has its own request and response body
+interface ModelFamily {
+  buildBody(request: LlmRequest): Record<string, any>;
+  parseResponse(body: any): { text: string; usage?: LlmUsage };
+  // Text carried by one streamed chunk, and token counts when the chunk reports them
+  parseChunk(chunk: any): { text?: string; usage?: Partial<LlmUsage> };
+}
+
+const nova: ModelFamily = {
+  buildBody: (request) => ({
+    schemaVersion: 'messages-v1',
+    ...(request.system && { system: [{ text: request.system }] }),
+    messages: [{ role: 'user', content: [{ text: request.prompt }] }],
+    inferenceConfig: {
+      maxTokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.topP !== undefined && { topP: request.topP }),
+    },
+  }),
+  parseResponse: (body) => ({
+    text: body.output?.message?.content?.map((part: any) => part.text || '').join('') || '',
+    usage: body.usage && { inputTokens: body.usage.inputTokens, outputTokens: body.usage.outputTokens },
+  }),
+  parseChunk: (chunk) => ({
+    text: chunk.contentBlockDelta?.delta?.text,
+    usage: chunk.metadata?.usage && {
+      inputTokens: chunk.metadata.usage.inputTokens,
+      outputTokens: chunk.metadata.usage.outputTokens,
+    },
+  }),
+};
+
+const anthropic: ModelFamily = {
+  buildBody: (request) => ({
+    anthropic_version: 'bedrock-2023-05-31',
+    max_tokens: request.maxTokens,
+    ...(request.system && { system: request.system }),
+    messages: [{ role: 'user', content: request.prompt }],
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.topP !== undefined && { top_p: request.topP }),
+  }),
+  parseResponse: (body) => ({
+    text: body.content?.map((part: any) => part.text || '').join('') || '',
+    usage: body.usage && { inputTokens: body.usage.input_tokens, outputTokens: body.usage.output_tokens },
+  }),
+  parseChunk: (chunk) => {
+    if (chunk.type === 'content_block_delta') {
+      return { text: chunk.delta?.text };
+    }
+    if (chunk.type === 'message_start') {
+      return { usage: { inputTokens: chunk.message?.usage?.input_tokens } };
+    }
+    if (chunk.type === 'message_delta') {
+      return { usage: { outputTokens: chunk.usage?.output_tokens } };
+    }
+    return {};
+  },
+};
+
+const llama: ModelFamily = {
+  buildBody: (request) => ({
+    prompt: request.system ? `${request.system}\n\n${request.prompt}` : request.prompt,
+    max_gen_len: request.maxTokens,
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.topP !== undefined && { top_p: request.topP }),
+  }),
+  parseResponse: (body) => ({
+    text: body.generation || '',
+    usage: body.prompt_token_count !== undefined
+      ? { inputTokens: body.prompt_token_count, outputTokens: body.generation_token_count }
+      : undefined,
+  }),
+  parseChunk: (chunk) => ({ text: chunk.generation }),
+};
+
+const mistral: ModelFamily = {
+  buildBody: (request) => ({
+    prompt: `<s>[INST] ${request.system ? `${request.system}\n\n` : ''}${request.prompt} [/INST]`,
+    max_tokens: request.maxTokens,
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.topP !== undefined && { top_p: request.topP }),
+  }),
+  parseResponse: (body) => ({ text: body.outputs?.[0]?.text || '' }),
+  parseChunk: (chunk) => ({ text: chunk.outputs?.[0]?.text }),
+};
+
+// Model ids may carry a cross-region prefix, e.g. "us.anthropic.claude-3-5-haiku-20241022-v1:0"
+export const modelFamily = (modelId: string): ModelFamily => {
+  if (modelId.includes('amazon.nova')) {
+    return nova;
+  }
+  if (modelId.includes('anthropic.')) {
+    return anthropic;
+  }
+  if (modelId.includes('meta.llama')) {
+    return llama;
+  }
+  if (modelId.includes('mistral.')) {
+    return mistral;
+  }
+  throw new Error(`Unsupported Bedrock model: ${modelId}`);
+};
+
+export class BedrockProvider implements LlmProvider {
+  readonly name = 'bedrock';
+  private client: BedrockRuntimeClient;
+
+  constructor() {
+    this.client = new BedrockRuntimeClient({
+      region: config.aws.region,
+      credentials: {
+        accessKeyId: config.aws.accessKeyId,
+        secretAccessKey: config.aws.secretAccessKey,
+      },
+    });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const family = modelFamily(request.model);
+
+    const command = new InvokeModelCommand({
+      modelId: request.model,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(family.buildBody(request)),
+    });
+    const response = await this.client.send(command);
+
+    const { text, usage } = family.parseResponse(JSON.parse(new TextDecoder().decode(response.body)));
+    return { text, model: request.model, usage };
+  }
+
+  async stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse> {
+    const family = modelFamily(request.model);
+
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: request.model,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(family.buildBody(request)),
+    });
+    const response = await this.client.send(command);
+
+    let text = '';
+    const usage: Partial<LlmUsage> = {};
+
+    for await (const event of response.body ?? []) {
+      if (!event.chunk?.bytes) {
+        continue;
+      }
+
+      const chunk = JSON.parse(new TextDecoder().decode(event.chunk.bytes));
+      const parsed = family.parseChunk(chunk);
+
+      if (parsed.text) {
+        text += parsed.text;
+        onText(parsed.text);
+      }
+      Object.assign(usage, parsed.usage);
+
+      // Bedrock appends invocation metrics to the last chunk for every model family
+      const metrics = chunk['amazon-bedrock-invocationMetrics'];
+      if (metrics) {
+        usage.inputTokens = metrics.inputTokenCount;
+        usage.outputTokens = metrics.outputTokenCount;
+      }
+    }
+
+    if (usage.inputTokens === undefined || usage.outputTokens === undefined) {
+      logger.warn(`Bedrock stream for ${request.model} did not report token usage`);
+      return { text, model: request.model };
+    }
+
+    return { text, model: request.model, usage: usage as LlmUsage };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { config } from '../../utils/config.js';
+import { BedrockProvider } from './bedrockProvider.js';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider.js';
+import { TemplateProvider } from './templateProvider.js';
+import { LlmProvider } from './types.js';
+
+export * from './types.js';
+
+const defaultModels: Record<string, { analysis: string; summary: string }> = {
+  bedrock: { analysis: 'amazon.nova-pro-v1:0', summary: 'amazon.nova-lite-v1:0' },
+  openai: { analysis: 'gpt-4o-mini', summary: 'gpt-4o-mini' },
+  template: { analysis: 'template', summary: 'template' },
+};
+
+export const createLlmProvider = (name: string = config.llm.provider): LlmProvider => {
+  switch (name) {
+    case 'bedrock':
+      return new BedrockProvider();
+    case 'openai':
+      return new OpenAiCompatibleProvider();
+    case 'template':
+      return new TemplateProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+};
+
+// Per-type override, then the global override, then the provider's default
+export const analysisModelFor = (analysisType: string, provider: string = config.llm.provider): string =>
+  config.llm.models[analysisType as keyof typeof config.llm.models]
+  || config.llm.defaultModel
+  || defaultModels[provider].analysis;
+
+export const summaryModelFor = (provider: string = config.llm.provider): string =>
+  config.llm.summaryModel || defaultModels[provider].summary;
\ No newline at end of file
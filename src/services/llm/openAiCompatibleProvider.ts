@@ -0,0 +1,92 @@
+import axios from 'axios';
+import { config } from '../../utils/config.js';
+import { LlmProvider, LlmRequest, LlmResponse, LlmUsage } from './types.js';
+
+const toUsage = (usage: any): LlmUsage | undefined =>
+  usage && { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens };
+
+// Any server implementing the OpenAI chat completions API: OpenAI itself, vLLM, Ollama, llama.cpp, LM Studio...
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string = config.llm.openai.baseUrl, apiKey: string | undefined = config.llm.openai.apiKey) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      this.buildBody(request, false),
+      { headers: this.headers(), timeout: config.llm.openai.timeoutMs }
+    );
+
+    return {
+      text: response.data.choices?.[0]?.message?.content || '',
+      model: response.data.model || request.model,
+      usage: toUsage(response.data.usage),
+    };
+  }
+
+  async stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse> {
+    const response = await axios.post(
+      `${this.baseUrl}/chat/completions`,
+      this.buildBody(request, true),
+      { headers: this.headers(), timeout: config.llm.openai.timeoutMs, responseType: 'stream' }
+    );
+
+    let text = '';
+    let model = request.model;
+    let usage: LlmUsage | undefined;
+    let buffered = '';
+
+    // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') {
+          continue;
+        }
+
+        const event = JSON.parse(data);
+        const delta = event.choices?.[0]?.delta?.content;
+
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        model = event.model || model;
+        usage = toUsage(event.usage) || usage;
+      }
+    }
+
+    return { text, model, usage };
+  }
+
+  private buildBody(request: LlmRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.topP !== undefined && { top_p: request.topP }),
+      ...(stream && { stream: true, stream_options: { include_usage: true } }),
+    };
+  }
+
+  private headers() {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+    };
+  }
+}
\ No newline at end of file
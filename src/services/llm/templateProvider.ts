@@ -0,0 +1,312 @@
+import crypto from 'crypto';
+import { LlmProvider, LlmRequest, LlmResponse } from './types.js';
+import { comparisonMarkdown } from '../../utils/comparison.js';
+
+const usd = (value: number) =>
+  `$${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const pct = (value: number) => `${value >= 0 ? '+' : ''}${Number(value || 0).toFixed(2)}%`;
+
+const trendWord = (change: number) => (change > 2 ? 'bullish' : change < -2 ? 'bearish' : 'neutral');
+
+// Rough token estimate so usage reporting has something stable to record
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const num = (value: number | null | undefined, digits: number = 2) =>
+  value === null || value === undefined ? 'n/a' : Number(value).toFixed(digits);
+
+// Levels derived from computed indicators when available, otherwise fixed offsets from the price
+const technicalLevels = (price: number, indicators?: Record<string, any> | null) => {
+  const pivots = indicators?.pivots;
+  const support = pivots && pivots.s1 < price ? pivots.s1 : price * 0.97;
+  const resistance = pivots && pivots.r1 > price ? pivots.r1 : price * 1.03;
+  const stop = indicators?.atr14 ? price - 2 * indicators.atr14 : price * 0.95;
+
+  return { support, resistance, stop, target1: price * 1.05, target2: price * 1.1 };
+};
+
+const indicatorSection = (indicators?: Record<string, any> | null): string => {
+  if (!indicators) {
+    return '';
+  }
+
+  const levels = Object.entries(indicators.fibonacci.levels as Record<string, number>)
+    .map(([ratio, level]) => `${ratio} ${usd(level)}`)
+    .join(', ');
+
+  return `
+## Indicators
+- **RSI (14)**: ${num(indicators.rsi14, 1)}
+- **MACD (12, 26, 9)**: ${num(indicators.macd.macd)} / signal ${num(indicators.macd.signal)} / histogram ${num(indicators.macd.histogram)}
+- **SMA 20 / 50**: ${usd(indicators.sma.sma20)} / ${usd(indicators.sma.sma50)}
+- **EMA 12 / 26**: ${usd(indicators.ema.ema12)} / ${usd(indicators.ema.ema26)}
+- **Bollinger Bands (20, 2)**: ${usd(indicators.bollinger.lower)} - ${usd(indicators.bollinger.upper)}
+- **ATR (14)**: ${usd(indicators.atr14)}
+- **Fibonacci retracements (${indicators.fibonacci.trend}trend)**: ${levels}
+`;
+};
+
+const portfolioTemplate = (portfolio: Record<string, any>): string => {
+  const positions = portfolio.positions
+    .map((position: any) => `- **${position.asset}**: ${usd(position.value)} (${position.weightPercent.toFixed(1)}%), volatility ${num(position.volatilityPercent, 1)}%`)
+    .join('\n');
+  const trades = portfolio.rebalancing.trades
+    .filter((trade: any) => trade.action !== 'hold')
+    .map((trade: any) => `- ${trade.action === 'buy' ? 'Buy' : 'Sell'} ${trade.quantity} ${trade.asset} (${usd(trade.value)}) to move from ${trade.currentPercent}% to ${trade.targetPercent}%`)
+    .join('\n');
+
+  return `# Portfolio Review
+
+## Composition
+The portfolio is worth ${usd(portfolio.totalValue)} across ${portfolio.positions.length} assets.
+
+${positions}
+
+## Diversification
+The Herfindahl-Hirschman index is ${portfolio.concentration.hhi}, equivalent to ${portfolio.concentration.effectiveHoldings} equally weighted holdings; ${portfolio.concentration.largestAsset} is the largest position at ${portfolio.concentration.largestWeightPercent}%.
+
+## Risk
+Annualized portfolio volatility is ${num(portfolio.volatility.portfolioPercent, 1)}% over ${portfolio.volatility.observations} daily returns.
+
+## Rebalancing
+${trades || `All positions are within ${portfolio.rebalancing.driftThresholdPercent} percentage points of target.`}`;
+};
+
+// Momentum-led score so the ranking follows the table deterministically
+const comparisonRanking = (comparison: Record<string, any>) =>
+  [...comparison.rows]
+    .map((row: any) => ({
+      row,
+      score: Math.min(100, Math.max(1, Math.round(50 + row.change30d * 2 + row.change7d - Math.min(row.rank ?? 50, 50) / 5))),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+const comparisonTemplate = (comparison: Record<string, any>): string => {
+  const ranking = comparisonRanking(comparison)
+    .map(({ row, score }, index) => `${index + 1}. **${row.symbol}** (score ${score}): ${pct(row.change30d)} over 30 days at a ${usd(row.marketCap)} market cap`)
+    .join('\n');
+
+  return `# Asset Comparison: ${comparison.symbols.join(' vs ')}
+
+## Side-by-side Metrics
+${comparisonMarkdown(comparison as any)}
+
+## Ranking
+${ranking}
+
+## Leaders
+- **Largest market cap**: ${comparison.leaders.marketCap ?? 'n/a'}
+- **Strongest 30-day momentum**: ${comparison.leaders.change30d ?? 'n/a'}
+- **Most actively traded**: ${comparison.leaders.volumeToMarketCapPercent ?? 'n/a'}`;
+};
+
+const analysisTemplate = (context: Record<string, any>): string => {
+  const { analysisType, cryptoData = {}, marketData = {}, parameters = {}, indicators, portfolio, comparison } = context;
+  const symbol = cryptoData.symbol || parameters.symbol || 'BTC';
+  const price = Number(cryptoData.price) || 0;
+
+  if (analysisType === 'PORTFOLIO_REVIEW' && portfolio) {
+    return portfolioTemplate(portfolio);
+  }
+  if (analysisType === 'COMPARISON' && comparison) {
+    return comparisonTemplate(comparison);
+  }
+
+  switch (analysisType) {
+    case 'TECHNICAL_ANALYSIS': {
+      const { support, resistance, stop, target1, target2 } = technicalLevels(price, indicators);
+      const riskReward = (target1 - price) / (price - stop || 1);
+
+      return `# Technical Analysis: ${symbol}
+
+## Current Market Structure
+${symbol} trades at ${usd(price)} with a **${trendWord(cryptoData.change7d)}** 7-day trend (${pct(cryptoData.change7d)}). Near-term support sits at ${usd(support)} and resistance at ${usd(resistance)}.
+
+## Momentum
+- **24h change**: ${pct(cryptoData.change24h)}
+- **7d change**: ${pct(cryptoData.change7d)}
+- **30d change**: ${pct(cryptoData.change30d)}
+${indicatorSection(indicators)}
+## Entry/Exit Strategy
+- **Entry Point**: ${usd(support)} - ${usd(price)}
+- **Target 1**: ${usd(target1)}
+- **Target 2**: ${usd(target2)}
+- **Stop Loss**: ${usd(stop)}
+
+## Risk Assessment
+The risk/reward ratio to the first target is 1:${riskReward.toFixed(1)}.`;
+    }
+
+    case 'FUNDAMENTAL_ANALYSIS':
+      return `# Fundamental Analysis: ${symbol}
+
+## Project Overview
+${cryptoData.name || symbol} ranks #${cryptoData.rank ?? 'n/a'} by market capitalization at ${usd(cryptoData.marketCap)}.
+
+## Supply Dynamics
+- **Circulating Supply**: ${Number(cryptoData.circulatingSupply || 0).toLocaleString('en-US')}
+- **Total Supply**: ${Number(cryptoData.totalSupply || 0).toLocaleString('en-US')}
+- **Max Supply**: ${cryptoData.maxSupply ? Number(cryptoData.maxSupply).toLocaleString('en-US') : 'uncapped'}
+
+## Market Context
+Total crypto market capitalization is ${usd(marketData.totalMarketCap)} with BTC dominance at ${Number(marketData.btcDominance || 0).toFixed(1)}%.
+
+## Long-term Outlook
+The 30-day performance of ${pct(cryptoData.change30d)} points to a ${trendWord(cryptoData.change30d)} medium-term backdrop.`;
+
+    case 'BASIC_OVERVIEW':
+      return `# ${symbol} Market Overview
+
+## Current Status
+${symbol} is trading at ${usd(price)}, ${pct(cryptoData.change24h)} over the last 24 hours, on ${usd(cryptoData.volume24h)} of volume.
+
+## Key Metrics
+- **Market Cap Rank**: #${cryptoData.rank ?? 'n/a'}
+- **Market Cap**: ${usd(cryptoData.marketCap)}
+- **7-day Performance**: ${pct(cryptoData.change7d)}
+- **30-day Performance**: ${pct(cryptoData.change30d)}
+
+## Market Sentiment
+Overall sentiment is **${trendWord(cryptoData.change7d)}** with the fear & greed index at ${marketData.fearGreedIndex ?? 'n/a'}.
+
+## Short-term Outlook
+Watch ${usd(price * 1.03)} as resistance and ${usd(price * 0.97)} as support over the next 1-4 weeks.`;
+
+    default:
+      return `# ${String(analysisType || 'Crypto').replace(/_/g, ' ')} Analysis: ${symbol}
+
+## Key Findings
+- ${symbol} trades at ${usd(price)} (${pct(cryptoData.change24h)} in 24h, ${pct(cryptoData.change7d)} in 7d)
+- Total market capitalization is ${usd(marketData.totalMarketCap)}
+- The short-term trend is ${trendWord(cryptoData.change7d)}
+
+## Recommendations
+Size positions conservatively and manage risk around ${usd(price * 0.95)}.`;
+  }
+};
+
+// Deterministic values satisfying the output schema of each analysis type
+const structuredTemplate = (context: Record<string, any>): object => {
+  const { analysisType, cryptoData = {}, marketData = {}, parameters = {}, indicators, portfolio, comparison } = context;
+  const price = Number(cryptoData.price) || 1;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const trend = trendWord(cryptoData.change7d);
+
+  switch (analysisType) {
+    case 'BASIC_OVERVIEW':
+      return {
+        outlook: trend,
+        riskScore: Math.min(10, Math.max(1, Math.round(Math.abs(cryptoData.change7d || 0)) + 3)),
+        support: [round(price * 0.97)],
+        resistance: [round(price * 1.03)],
+        keyPoints: [`24h change ${pct(cryptoData.change24h)}`, `30d change ${pct(cryptoData.change30d)}`],
+      };
+    case 'TECHNICAL_ANALYSIS': {
+      const levels = technicalLevels(price, indicators);
+      return {
+        trend,
+        entry: { low: round(levels.support), high: round(price) },
+        targets: [round(levels.target1), round(levels.target2)],
+        stopLoss: round(levels.stop),
+        riskReward: round((levels.target1 - price) / (price - levels.stop || 1)),
+        timeframe: parameters.timeframe || '2-4 weeks',
+      };
+    }
+    case 'FUNDAMENTAL_ANALYSIS':
+      return {
+        score: Math.min(100, Math.max(1, 100 - (Number(cryptoData.rank) || 50))),
+        conviction: (Number(cryptoData.rank) || 100) <= 10 ? 'high' : 'medium',
+        strengths: [`Market cap rank #${cryptoData.rank ?? 'n/a'}`],
+        risks: ['Market-wide drawdowns'],
+      };
+    case 'PORTFOLIO_REVIEW':
+      if (portfolio) {
+        const trades = portfolio.rebalancing.trades;
+        return {
+          // Share of the maximum possible effective holdings
+          diversificationScore: Math.max(1, Math.round((portfolio.concentration.effectiveHoldings / trades.length) * 100)),
+          allocations: trades.map((trade: any) => ({ asset: trade.asset, targetPercent: trade.targetPercent })),
+          actions: trades
+            .filter((trade: any) => trade.action !== 'hold')
+            .map((trade: any) => `${trade.action} ${trade.quantity} ${trade.asset}`),
+        };
+      }
+      return {
+        diversificationScore: 50,
+        allocations: [{ asset: cryptoData.symbol || parameters.symbol || 'BTC', targetPercent: 100 }],
+        actions: ['Review position sizing'],
+      };
+    case 'MARKET_SENTIMENT': {
+      const score = Math.round(((Number(marketData.fearGreedIndex) || 50) - 50) * 2);
+      return {
+        sentimentScore: score,
+        label: score > 20 ? 'bullish' : score < -20 ? 'bearish' : 'neutral',
+        drivers: [`Fear & greed index at ${marketData.fearGreedIndex ?? 'n/a'}`],
+      };
+    }
+    case 'DEFI_OPPORTUNITIES':
+      return { opportunities: [] };
+    case 'COMPARISON': {
+      const ranking = comparison ? comparisonRanking(comparison) : [];
+      return {
+        ranking: ranking.map(({ row, score }, index) => ({
+          symbol: row.symbol,
+          position: index + 1,
+          score,
+          rationale: `${pct(row.change30d)} over 30 days, market cap rank #${row.rank ?? 'n/a'}`,
+        })),
+        winner: ranking[0]?.row.symbol || '',
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+// First sentence of each section's prose, up to three
+const summaryTemplate = (fullAnalysis: string): string => {
+  const sentences = fullAnalysis
+    .split('\n')
+    .filter((line) => line.trim() && !line.startsWith('#') && !line.startsWith('-'))
+    .map((line) => line.replace(/\*\*/g, '').split(/(?<=\.)\s/)[0].trim());
+
+  return sentences.slice(0, 3).join(' ') || 'No findings to summarize.';
+};
+
+// Deterministic output rendered from the request context; needs no network or credentials
+export class TemplateProvider implements LlmProvider {
+  readonly name = 'template';
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const text = this.render(request);
+
+    return {
+      text,
+      model: request.model,
+      usage: { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) },
+    };
+  }
+
+  async stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse> {
+    const response = await this.complete(request);
+    response.text.split(/(?<=\n)/).forEach(onText);
+    return response;
+  }
+
+  private render(request: LlmRequest): string {
+    const context = request.context || {};
+
+    if (context.task === 'analysis') {
+      return analysisTemplate(context);
+    }
+    if (context.task === 'summary') {
+      return summaryTemplate(context.fullAnalysis || '');
+    }
+    if (context.task === 'structured') {
+      return JSON.stringify(structuredTemplate(context));
+    }
+
+    const digest = crypto.createHash('sha256').update(request.prompt).digest('hex').substring(0, 12);
+    return `Template response ${digest}`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmRequest {
+  model: string;
+  prompt: string;
+  system?: string;
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  // Structured inputs behind the prompt; only the template provider reads them
+  context?: Record<string, any>;
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+  // Like complete, calling onText with each piece of text as it is generated
+  stream(request: LlmRequest, onText: (text: string) => void): Promise<LlmResponse>;
+}
\ No newline at end of file
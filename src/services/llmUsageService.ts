@@ -0,0 +1,129 @@
+import { AnalysisType, LlmCallPurpose, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { llmCallCost, marginOf } from '../utils/llmCost.js';
+import { LlmUsage } from './llm/index.js';
+
+const prisma = new PrismaClient();
+
+type UsageAggregate = {
+  _sum: { cost: Prisma.Decimal | null; inputTokens: number | null; outputTokens: number | null };
+  _count: { _all: number; cost: number };
+};
+
+const USAGE_AGGREGATE = {
+  _sum: { cost: true, inputTokens: true, outputTokens: true },
+  _count: { _all: true, cost: true },
+} as const;
+
+// Calls that completed a generation; the rest belong to attempts that never did
+const ATTRIBUTED: Prisma.LlmCallWhereInput = { analysisVersionId: { not: null } };
+
+const usageTotals = (aggregate: UsageAggregate) => ({
+  calls: aggregate._count._all,
+  uncostedCalls: aggregate._count._all - aggregate._count.cost,
+  inputTokens: aggregate._sum.inputTokens ?? 0,
+  outputTokens: aggregate._sum.outputTokens ?? 0,
+});
+
+// Token usage and cost of every model call made for an analysis, and what generations earn after paying for them
+export class LlmUsageService {
+  // Recorded as each call returns, so attempts that fail afterwards are accounted for as well
+  async record(
+    analysis: { id: string; type: AnalysisType },
+    purpose: LlmCallPurpose,
+    provider: string,
+    response: { model: string; usage?: LlmUsage }
+  ): Promise<void> {
+    const cost = llmCallCost(response.model, response.usage, config.llm.prices);
+
+    if (cost === null) {
+      logger.warn(`No cost for ${provider}/${response.model} call on analysis ${analysis.id}: ${response.usage ? 'model has no price' : 'no usage reported'}`);
+    }
+
+    try {
+      await prisma.llmCall.create({
+        data: {
+          analysisId: analysis.id,
+          analysisType: analysis.type,
+          purpose,
+          provider,
+          model: response.model,
+          inputTokens: response.usage?.inputTokens ?? 0,
+          outputTokens: response.usage?.outputTokens ?? 0,
+          cost,
+        },
+      });
+    } catch (error) {
+      // Accounting must not cost the customer their report
+      logger.error(`Error recording ${purpose} call usage for analysis ${analysis.id}:`, error);
+    }
+  }
+
+  // Assigns the analysis's unattributed calls, including those of failed attempts, to the version they led to
+  async attribute(tx: Prisma.TransactionClient, analysisId: string, analysisVersionId: string): Promise<number> {
+    const { count } = await tx.llmCall.updateMany({
+      where: { analysisId, analysisVersionId: null },
+      data: { analysisVersionId },
+    });
+    return count;
+  }
+
+  // Revenue against model cost of the generations with recorded usage, per analysis type and per model that wrote
+  // the report (its summary and structured output calls included), plus all usage per model and purpose
+  async getMargins(): Promise<any> {
+    const withUsage: Prisma.AnalysisVersionWhereInput = { llmCalls: { some: {} } };
+
+    const [revenue, cost, types, reportModels, usage] = await Promise.all([
+      prisma.analysisVersion.aggregate({ where: withUsage, _sum: { price: true }, _count: true }),
+      prisma.llmCall.aggregate({ where: ATTRIBUTED, ...USAGE_AGGREGATE }),
+      prisma.llmCall.groupBy({ by: ['analysisType'], where: ATTRIBUTED, ...USAGE_AGGREGATE }),
+      prisma.llmCall.groupBy({ by: ['model'], where: { ...ATTRIBUTED, purpose: 'ANALYSIS' } }),
+      prisma.llmCall.groupBy({ by: ['model', 'purpose'], ...USAGE_AGGREGATE }),
+    ]);
+
+    const byType = await Promise.all(types.map(async (row) => {
+      const typeRevenue = await prisma.analysisVersion.aggregate({
+        where: { ...withUsage, analysis: { type: row.analysisType } },
+        _sum: { price: true },
+        _count: true,
+      });
+
+      return {
+        analysisType: row.analysisType,
+        generations: typeRevenue._count,
+        ...usageTotals(row),
+        ...marginOf(Number(typeRevenue._sum.price ?? 0), Number(row._sum.cost ?? 0)),
+      };
+    }));
+
+    const byModel = await Promise.all(reportModels.map(async ({ model }) => {
+      const written: Prisma.AnalysisVersionWhereInput = { llmCalls: { some: { purpose: 'ANALYSIS', model } } };
+      const [modelRevenue, modelCost] = await Promise.all([
+        prisma.analysisVersion.aggregate({ where: written, _sum: { price: true }, _count: true }),
+        prisma.llmCall.aggregate({ where: { analysisVersion: written }, ...USAGE_AGGREGATE }),
+      ]);
+
+      return {
+        model,
+        generations: modelRevenue._count,
+        ...usageTotals(modelCost),
+        ...marginOf(Number(modelRevenue._sum.price ?? 0), Number(modelCost._sum.cost ?? 0)),
+      };
+    }));
+
+    return {
+      currency: 'USD',
+      overall: {
+        generations: revenue._count,
+        ...usageTotals(cost),
+        ...marginOf(Number(revenue._sum.price ?? 0), Number(cost._sum.cost ?? 0)),
+      },
+      byType: byType.sort((a, b) => b.revenue - a.revenue),
+      byModel: byModel.sort((a, b) => b.revenue - a.revenue),
+      usageByModel: usage
+        .map((row) => ({ model: row.model, purpose: row.purpose, ...usageTotals(row), cost: Number(row._sum.cost ?? 0) }))
+        .sort((a, b) => b.cost - a.cost),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,142 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+export interface ThrottleResult {
+  retryAfter: number; // seconds
+  reason: string;
+}
+
+export const accountThrottleKey = (identifier: string) => `account:${identifier.trim().toLowerCase()}`;
+
+export const ipThrottleKey = (ip: string | undefined) => `ip:${ip || 'unknown'}`;
+
+// Kept apart from the account key, which a correct password clears
+export const twoFactorThrottleKey = (userId: string) => `2fa:${userId}`;
+
+const isIpKey = (key: string) => key.startsWith('ip:');
+
+// Failed logins are counted per account and per IP, with growing delays and then a temporary lock
+export class LoginThrottleService {
+  // Returns why the attempt must wait, or null when it may proceed
+  async check(keys: string[]): Promise<ThrottleResult | null> {
+    const now = Date.now();
+    const throttles = await prisma.loginThrottle.findMany({
+      where: { key: { in: keys } },
+    });
+
+    let result: ThrottleResult | null = null;
+
+    for (const throttle of throttles) {
+      if (throttle.lockedUntil) {
+        if (throttle.lockedUntil.getTime() > now) {
+          const retryAfter = Math.ceil((throttle.lockedUntil.getTime() - now) / 1000);
+          result = this.longest(result, {
+            retryAfter,
+            reason: isIpKey(throttle.key)
+              ? 'Too many failed logins from this network, try again later'
+              : 'Account temporarily locked after too many failed logins',
+          });
+          continue;
+        }
+
+        // Lock expired: keep delays in force but allow attempts again
+        await prisma.loginThrottle.update({
+          where: { id: throttle.id },
+          data: { lockedUntil: null, failures: config.loginThrottle.freeAttempts },
+        });
+        logger.info(`Login lock expired for ${throttle.key}`);
+        continue;
+      }
+
+      const delay = this.delaySeconds(throttle.failures);
+      const waitUntil = throttle.lastFailureAt.getTime() + delay * 1000;
+      if (delay > 0 && waitUntil > now) {
+        result = this.longest(result, {
+          retryAfter: Math.ceil((waitUntil - now) / 1000),
+          reason: 'Too many failed logins, slow down',
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // Counted atomically, so a burst of parallel failures cannot overwrite each other's counts
+  async recordFailure(keys: string[]): Promise<void> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - config.loginThrottle.windowMinutes * 60 * 1000);
+
+    for (const key of keys) {
+      // Failures older than the window are forgotten before counting this one
+      await prisma.loginThrottle.updateMany({
+        where: { key, lastFailureAt: { lt: windowStart } },
+        data: { failures: 0, lockedUntil: null },
+      });
+
+      const { failures } = await prisma.loginThrottle.upsert({
+        where: { key },
+        create: { key, failures: 1, lastFailureAt: now },
+        update: { failures: { increment: 1 }, lastFailureAt: now },
+      });
+
+      const threshold = isIpKey(key)
+        ? config.loginThrottle.ipLockThreshold
+        : config.loginThrottle.accountLockThreshold;
+
+      if (failures >= threshold) {
+        const lockedUntil = new Date(now.getTime() + config.loginThrottle.lockMinutes * 60 * 1000);
+        await prisma.loginThrottle.update({ where: { key }, data: { lockedUntil } });
+        logger.warn(`Login locked for ${key} until ${lockedUntil.toISOString()} after ${failures} failures`);
+      }
+    }
+  }
+
+  // Runs a password or code check outside the login routes under the same limits:
+  // refused with a 429 while the keys must wait, and counted as a failure when it rejects the credentials
+  async guard<T>(keys: string[], attempt: () => Promise<T>): Promise<T> {
+    const throttle = await this.check(keys);
+
+    if (throttle) {
+      throw new HttpError(429, `${throttle.reason} (retry in ${throttle.retryAfter}s)`);
+    }
+
+    try {
+      return await attempt();
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 401) {
+        await this.recordFailure(keys);
+      }
+      throw error;
+    }
+  }
+
+  // A successful login clears the account's record; the IP record ages out on its own
+  async recordSuccess(accountKey: string): Promise<void> {
+    await prisma.loginThrottle.deleteMany({ where: { key: accountKey } });
+  }
+
+  async unlock(keys: string[], unlockedBy: string): Promise<number> {
+    const result = await prisma.loginThrottle.deleteMany({
+      where: { key: { in: keys } },
+    });
+
+    logger.info(`Login throttle cleared for ${keys.join(', ')} by ${unlockedBy}`);
+    return result.count;
+  }
+
+  private delaySeconds(failures: number): number {
+    const excess = failures - config.loginThrottle.freeAttempts;
+    if (excess <= 0) {
+      return 0;
+    }
+    return Math.min(2 ** (excess - 1), config.loginThrottle.maxDelaySeconds);
+  }
+
+  private longest(current: ThrottleResult | null, candidate: ThrottleResult): ThrottleResult {
+    return !current || candidate.retryAfter > current.retryAfter ? candidate : current;
+  }
+}
\ No newline at end of file
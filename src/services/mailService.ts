@@ -0,0 +1,84 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local development: print the message to the log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Local development: write each message to a file so links can be opened
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.txt`;
+    const contents = [
+      `From: ${config.mail.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+    ].join('\n');
+
+    await fs.writeFile(path.join(this.directory, fileName), contents);
+    logger.info(`Mail to ${message.to} written to ${fileName}`);
+  }
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.mail.smtp.host,
+      port: config.mail.smtp.port,
+      secure: config.mail.smtp.secure,
+      auth: config.mail.smtp.user
+        ? { user: config.mail.smtp.user, pass: config.mail.smtp.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.mail.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    logger.info(`Mail sent to ${message.to} via SMTP`);
+  }
+}
+
+export const createMailTransport = (): MailTransport => {
+  switch (config.mail.transport) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport(config.mail.fileDir);
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${config.mail.transport}`);
+  }
+};
\ No newline at end of file
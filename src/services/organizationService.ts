@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+import { OrganizationRole, Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { MailTransport, createMailTransport } from './mailService.js';
+
+const prisma = new PrismaClient();
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const memberFields = {
+  role: true,
+  createdAt: true,
+  user: { select: { id: true, email: true, walletAddress: true } },
+};
+
+const invitationFields = {
+  id: true,
+  email: true,
+  role: true,
+  invitedById: true,
+  expiresAt: true,
+  createdAt: true,
+};
+
+export interface SpendPeriod {
+  from?: Date;
+  to?: Date;
+}
+
+export class OrganizationService {
+  private mailTransport: MailTransport;
+
+  constructor(mailTransport: MailTransport = createMailTransport()) {
+    this.mailTransport = mailTransport;
+  }
+
+  // The creator becomes the first owner
+  async createOrganization(userId: string, name: string): Promise<any> {
+    const organization = await prisma.organization.create({
+      data: {
+        name,
+        seatLimit: config.organizations.defaultSeatLimit,
+        members: { create: { userId, role: 'OWNER' } },
+      },
+    });
+
+    logger.info(`User ${userId} created organization ${organization.id}`);
+    return this.getOrganization(userId, organization.id);
+  }
+
+  async listOrganizations(userId: string): Promise<any[]> {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      include: {
+        organization: { include: { _count: { select: { members: true } } } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return memberships.map(({ organization, role }) => ({ ...organization, role }));
+  }
+
+  async getOrganization(userId: string, organizationId: string): Promise<any> {
+    const membership = await this.requireMembership(userId, organizationId);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: {
+        members: { select: memberFields, orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    return { ...organization, role: membership.role };
+  }
+
+  async updateOrganization(userId: string, organizationId: string, changes: { name?: string; seatLimit?: number }): Promise<any> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+
+    if (changes.seatLimit !== undefined && changes.seatLimit < (await this.seatsInUse(organizationId))) {
+      throw new HttpError(400, 'Seat limit is below the current members and pending invitations');
+    }
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: changes,
+    });
+
+    return this.getOrganization(userId, organizationId);
+  }
+
+  // Throws unless the user belongs to the organization (with the given role, if any)
+  async requireMembership(userId: string, organizationId: string, role?: OrganizationRole) {
+    const membership = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!membership) {
+      throw new HttpError(404, 'Organization not found');
+    }
+
+    if (role && membership.role !== role) {
+      throw new HttpError(403, 'Only organization owners can do this');
+    }
+
+    return membership;
+  }
+
+  // Ids of every organization the user belongs to, for visibility checks
+  async getOrganizationIds(userId: string): Promise<string[]> {
+    const memberships = await prisma.organizationMember.findMany({
+      where: { userId },
+      select: { organizationId: true },
+    });
+
+    return memberships.map((membership) => membership.organizationId);
+  }
+
+  async inviteMember(userId: string, organizationId: string, email: string, role: OrganizationRole = 'MEMBER'): Promise<any> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+
+    const organization = await prisma.organization.findUniqueOrThrow({ where: { id: organizationId } });
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingMember = await prisma.organizationMember.findFirst({
+      where: { organizationId, user: { email: { equals: normalizedEmail, mode: 'insensitive' } } },
+    });
+    if (existingMember) {
+      throw new HttpError(409, 'User is already a member');
+    }
+
+    // Re-inviting replaces the earlier invitation instead of taking another seat
+    await prisma.organizationInvitation.updateMany({
+      where: { organizationId, email: normalizedEmail, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if ((await this.seatsInUse(organizationId)) >= organization.seatLimit) {
+      throw new HttpError(400, 'No seats left in this organization');
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const invitation = await prisma.organizationInvitation.create({
+      data: {
+        organizationId,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashToken(token),
+        invitedById: userId,
+        expiresAt: new Date(Date.now() + config.organizations.invitationTtlDays * 24 * 60 * 60 * 1000),
+      },
+      select: invitationFields,
+    });
+
+    const link = `${config.app.frontendUrl}/organizations/join?token=${encodeURIComponent(token)}`;
+
+    await this.mailTransport.send({
+      to: normalizedEmail,
+      subject: `You're invited to ${organization.name} on CryptoAnalyst AI`,
+      text: `You have been invited to join ${organization.name}. Accept the invitation by opening this link:\n\n${link}\n\nThe link expires in ${config.organizations.invitationTtlDays} days.`,
+    });
+
+    logger.info(`User ${userId} invited ${invitation.id} to organization ${organizationId}`);
+    return invitation;
+  }
+
+  async listInvitations(userId: string, organizationId: string): Promise<any[]> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+
+    return prisma.organizationInvitation.findMany({
+      where: { organizationId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: invitationFields,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeInvitation(userId: string, organizationId: string, invitationId: string): Promise<boolean> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+
+    const result = await prisma.organizationInvitation.updateMany({
+      where: { id: invitationId, organizationId, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  // The invitation only works for the account whose email it was sent to
+  async acceptInvitation(userId: string, token: string): Promise<any> {
+    const invitation = await prisma.organizationInvitation.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < new Date()) {
+      throw new HttpError(400, 'Invitation is invalid or has expired');
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user || user.email.toLowerCase() !== invitation.email) {
+      throw new HttpError(403, 'Invitation was sent to a different email address');
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const claimed = await tx.organizationInvitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+        data: { acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new HttpError(400, 'Invitation is invalid or has expired');
+      }
+
+      await tx.organizationMember.upsert({
+        where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+        create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+        update: {},
+      });
+    });
+
+    logger.info(`User ${userId} joined organization ${invitation.organizationId}`);
+    return this.getOrganization(userId, invitation.organizationId);
+  }
+
+  async updateMemberRole(userId: string, organizationId: string, memberUserId: string, role: OrganizationRole): Promise<any> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (member.role === 'OWNER' && role !== 'OWNER') {
+      await this.ensureAnotherOwner(organizationId, memberUserId);
+    }
+
+    await prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role },
+    });
+
+    logger.info(`User ${userId} changed role of ${memberUserId} in organization ${organizationId} to ${role}`);
+    return this.getOrganization(userId, organizationId);
+  }
+
+  // Owners remove anyone; members can only remove themselves
+  async removeMember(userId: string, organizationId: string, memberUserId: string): Promise<void> {
+    const membership = await this.requireMembership(userId, organizationId);
+
+    if (memberUserId !== userId && membership.role !== 'OWNER') {
+      throw new HttpError(403, 'Only organization owners can do this');
+    }
+
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (member.role === 'OWNER') {
+      await this.ensureAnotherOwner(organizationId, memberUserId);
+    }
+
+    await prisma.organizationMember.delete({ where: { id: member.id } });
+
+    logger.info(`User ${memberUserId} removed from organization ${organizationId} by ${userId}`);
+  }
+
+  async listAnalyses(userId: string, organizationId: string, page: number, limit: number): Promise<any> {
+    await this.requireMembership(userId, organizationId);
+
+    const where: Prisma.AnalysisWhereInput = { organizationId };
+
+    const [analyses, total] = await Promise.all([
+      prisma.analysis.findMany({
+        where,
+        include: {
+          user: { select: { id: true, email: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.analysis.count({ where }),
+    ]);
+
+    return {
+      analyses,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Completed spend billed to the organization, in total, per member and per analysis type
+  async getSpend(userId: string, organizationId: string, period: SpendPeriod): Promise<any> {
+    await this.requireMembership(userId, organizationId, 'OWNER');
+
+    const completedAt = {
+      ...(period.from && { gte: period.from }),
+      ...(period.to && { lte: period.to }),
+    };
+    const paymentWhere: Prisma.PaymentWhereInput = {
+      organizationId,
+      status: 'COMPLETED',
+      ...(Object.keys(completedAt).length > 0 && { completedAt }),
+    };
+
+    const [total, byMember, byType] = await Promise.all([
+      prisma.payment.aggregate({
+        where: paymentWhere,
+        _sum: { amount: true },
+        _count: true,
+      }),
+      prisma.payment.groupBy({
+        by: ['userId'],
+        where: paymentWhere,
+        _sum: { amount: true },
+        _count: true,
+      }),
+      prisma.analysis.groupBy({
+        by: ['type'],
+        where: { organizationId, payment: paymentWhere },
+        _sum: { price: true },
+        _count: true,
+      }),
+    ]);
+
+    const members = await prisma.user.findMany({
+      where: { id: { in: byMember.map((row) => row.userId) } },
+      select: { id: true, email: true },
+    });
+    const emails = new Map(members.map((member) => [member.id, member.email]));
+
+    return {
+      organizationId,
+      from: period.from || null,
+      to: period.to || null,
+      totalSpend: total._sum.amount || 0,
+      payments: total._count,
+      byMember: byMember.map((row) => ({
+        userId: row.userId,
+        email: emails.get(row.userId) || null,
+        spend: row._sum.amount || 0,
+        payments: row._count,
+      })),
+      byType: byType.map((row) => ({
+        type: row.type,
+        spend: row._sum.price || 0,
+        analyses: row._count,
+      })),
+    };
+  }
+
+  private async seatsInUse(organizationId: string): Promise<number> {
+    const [members, pendingInvitations] = await Promise.all([
+      prisma.organizationMember.count({ where: { organizationId } }),
+      prisma.organizationInvitation.count({
+        where: { organizationId, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      }),
+    ]);
+
+    return members + pendingInvitations;
+  }
+
+  private async ensureAnotherOwner(organizationId: string, userId: string): Promise<void> {
+    const owners = await prisma.organizationMember.count({
+      where: { organizationId, role: 'OWNER', userId: { not: userId } },
+    });
+
+    if (owners === 0) {
+      throw new HttpError(400, 'An organization needs at least one owner');
+    }
+  }
+
+  private async findMember(organizationId: string, userId: string) {
+    const member = await prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!member) {
+      throw new HttpError(404, 'Member not found');
+    }
+
+    return member;
+  }
+}
\ No newline at end of file
@@ -1,24 +1,36 @@
 import axios from 'axios';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { verifyWebhookSignature } from '../utils/webhookSignature.js';
 import { PrismaClient } from '@prisma/client';
 import { WalletService } from './walletService.js';
+import { AnalysisGenerationService } from './analysisGenerationService.js';
+import { CreditService } from './creditService.js';
+import { LlmUsageService } from './llmUsageService.js';
 
 const prisma = new PrismaClient();
 
 export class PaymentService {
   private walletService: WalletService;
+  private analysisGenerationService: AnalysisGenerationService;
+  private creditService: CreditService;
+  private llmUsageService: LlmUsageService;
 
   constructor() {
     this.walletService = new WalletService();
+    this.analysisGenerationService = new AnalysisGenerationService();
+    this.creditService = new CreditService();
+    this.llmUsageService = new LlmUsageService();
   }
 
-  async createPayment(userId: string, analysisType: string, amount: number): Promise<string> {
+  async createPayment(userId: string, analysisType: string, amount: number, organizationId?: string): Promise<string> {
     try {
       // Create payment record
       const payment = await prisma.payment.create({
         data: {
           userId,
+          organizationId,
           amount,
           currency: 'USD',
           status: 'PENDING',
@@ -70,13 +82,12 @@ export class PaymentService {
     }
   }
 
-  async handlePaymentWebhook(payload: any, signature: string): Promise<void> {
+  // rawBody is the request body exactly as received; the signature covers it, not the parsed payload
+  async handlePaymentWebhook(payload: any, signature: string, rawBody: Buffer): Promise<void> {
     try {
-      // Verify webhook signature (implementation depends on x402pay docs)
-      // const isValid = this.verifyWebhookSignature(payload, signature);
-      // if (!isValid) {
-      //   throw new Error('Invalid webhook signature');
-      // }
+      if (!verifyWebhookSignature(rawBody, signature)) {
+        throw new HttpError(401, 'Invalid webhook signature');
+      }
 
       const { reference: paymentId, status, transaction_hash } = payload;
 
@@ -114,23 +125,13 @@ export class PaymentService {
 
   private async processPaymentCompletion(payment: any): Promise<void> {
     try {
-      // Find associated analysis
-      const analysis = await prisma.analysis.findFirst({
-        where: { paymentId: payment.id },
-      });
-
-      if (analysis) {
-        // Update analysis status to processing
-        await prisma.analysis.update({
-          where: { id: analysis.id },
-          data: { status: 'PROCESSING' },
-        });
-
-        // Trigger analysis generation (this would typically be done via a queue)
-        // For demo purposes, we'll call it directly
-        // In production, use a job queue like Bull or AWS SQS
-        logger.info(`Starting analysis generation for analysis ${analysis.id}`);
+      if (payment.purpose === 'CREDIT_TOP_UP') {
+        await this.creditService.applyTopUp(payment.id);
+        return;
       }
+
+      // Queue generation of the associated analysis; a worker picks it up
+      await this.analysisGenerationService.enqueueForPayment(payment.id);
     } catch (error) {
       logger.error('Error processing payment completion:', error);
       throw error;
@@ -156,8 +157,11 @@ export class PaymentService {
 
   async getRevenueDashboard(): Promise<any> {
     try {
+      // Credit spent on scheduled runs was already counted when it was topped up
+      const revenuePayments = { status: 'COMPLETED' as const, purpose: { not: 'CREDIT_SPEND' as const } };
+
       const totalRevenue = await prisma.payment.aggregate({
-        where: { status: 'COMPLETED' },
+        where: revenuePayments,
         _sum: { amount: true },
       });
 
@@ -172,8 +176,15 @@ export class PaymentService {
         _count: true,
       });
 
+      const revenueByOrganization = await prisma.payment.groupBy({
+        by: ['organizationId'],
+        where: { ...revenuePayments, organizationId: { not: null } },
+        _sum: { amount: true },
+        _count: true,
+      });
+
       const recentPayments = await prisma.payment.findMany({
-        where: { status: 'COMPLETED' },
+        where: revenuePayments,
         orderBy: { completedAt: 'desc' },
         take: 10,
         include: {
@@ -182,11 +193,16 @@ export class PaymentService {
         },
       });
 
+      // Model cost against revenue, per analysis type and model
+      const margins = await this.llmUsageService.getMargins();
+
       return {
         totalRevenue: totalRevenue._sum.amount || 0,
         totalAnalyses,
         revenueByType,
+        revenueByOrganization,
         recentPayments,
+        margins,
       };
     } catch (error) {
       logger.error('Error getting revenue dashboard:', error);
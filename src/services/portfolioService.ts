@@ -0,0 +1,74 @@
+import { config } from '../utils/config.js';
+import { HttpError } from '../utils/errors.js';
+import { KNOWN_ASSETS } from '../utils/assets.js';
+import { Holding, PortfolioMetrics, computePortfolioMetrics } from '../utils/portfolioMetrics.js';
+import { IndicatorService } from './indicatorService.js';
+
+export class PortfolioService {
+  private indicatorService: IndicatorService;
+
+  constructor(indicatorService: IndicatorService = new IndicatorService()) {
+    this.indicatorService = indicatorService;
+  }
+
+  // Checks holdings before a portfolio review is ordered; returns them with tickers upper-cased
+  validateHoldings(holdings: any): Holding[] {
+    if (!Array.isArray(holdings) || holdings.length === 0) {
+      throw new HttpError(400, 'Portfolio review needs at least one holding');
+    }
+    if (holdings.length > config.portfolio.maxHoldings) {
+      throw new HttpError(400, `A portfolio review covers at most ${config.portfolio.maxHoldings} holdings`);
+    }
+
+    const normalized: Holding[] = holdings.map((holding: any) => {
+      const asset = String(holding?.asset || '').toUpperCase();
+      const quantity = Number(holding?.quantity);
+
+      if (!KNOWN_ASSETS[asset]) {
+        throw new HttpError(400, `Unsupported asset: ${asset || '(missing)'}`);
+      }
+      if (!(quantity > 0)) {
+        throw new HttpError(400, `Quantity of ${asset} must be a positive number`);
+      }
+      if (holding.costBasis !== undefined && !(Number(holding.costBasis) >= 0)) {
+        throw new HttpError(400, `Cost basis of ${asset} must be a non-negative number`);
+      }
+
+      return {
+        asset,
+        quantity,
+        ...(holding.costBasis !== undefined && { costBasis: Number(holding.costBasis) }),
+        ...(holding.targetPercent !== undefined && { targetPercent: Number(holding.targetPercent) }),
+      };
+    });
+
+    if (new Set(normalized.map((holding) => holding.asset)).size !== normalized.length) {
+      throw new HttpError(400, 'Each asset may appear only once');
+    }
+
+    // Targets are all or nothing; without them the plan rebalances toward equal weights
+    const withTargets = normalized.filter((holding) => holding.targetPercent !== undefined);
+    if (withTargets.length > 0) {
+      if (withTargets.length !== normalized.length) {
+        throw new HttpError(400, 'Give a target percent for every holding or for none');
+      }
+      const total = withTargets.reduce((sum, holding) => sum + holding.targetPercent!, 0);
+      if (Math.abs(total - 100) > 0.01) {
+        throw new HttpError(400, `Target percents must add up to 100 (got ${total})`);
+      }
+    }
+
+    return normalized;
+  }
+
+  // Weights, concentration, volatility, correlations and a rebalancing plan at current prices
+  async analyze(holdings: Holding[]): Promise<PortfolioMetrics> {
+    const candles = await Promise.all(holdings.map((holding) => this.indicatorService.getCandles(holding.asset)));
+
+    return computePortfolioMetrics(
+      holdings,
+      Object.fromEntries(holdings.map((holding, index) => [holding.asset, candles[index]])),
+      config.portfolio.rebalanceDriftPercent
+    );
+  }
+}
\ No newline at end of file
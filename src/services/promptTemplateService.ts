@@ -0,0 +1,162 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { mockCryptoData, mockMarketData } from '../utils/mockData.js';
+import {
+  PROMPT_TEMPLATE_KEYS,
+  SUMMARY_TEMPLATE_KEY,
+  SelectedPromptTemplate,
+  analysisTemplateVariables,
+  builtinTemplate,
+  renderTemplate,
+  templateErrors,
+  templateVariables,
+  templateVariablesFor,
+  weightedPick,
+} from '../utils/promptTemplates.js';
+
+const prisma = new PrismaClient();
+
+// Stands in for the report an executive summary template is previewed with
+const SAMPLE_FULL_ANALYSIS = `## Market Overview
+Bitcoin trades at $43,250.75, up 2.45% over 24 hours with a market cap of $847.25B (rank #1).
+
+## Outlook
+Support sits near $41,800 and resistance near $45,000. Momentum is neutral to bullish; risk 5/10.
+
+## Recommendations
+Accumulate on pullbacks towards support with a stop below $40,500.`;
+
+export interface PromptPreviewInput {
+  key?: string;
+  body?: string;
+  templateId?: string;
+  symbol?: string;
+  parameters?: any;
+  fullAnalysis?: string;
+}
+
+export class PromptTemplateService {
+  // Stored versions (newest first) with each key's variables and built-in template
+  async listTemplates(key?: string): Promise<any> {
+    const keys = key ? PROMPT_TEMPLATE_KEYS.filter((candidate) => candidate === key) : PROMPT_TEMPLATE_KEYS;
+
+    if (!keys.length) {
+      throw new HttpError(400, `Unknown template key; use one of ${PROMPT_TEMPLATE_KEYS.join(', ')}`);
+    }
+
+    const templates = await prisma.promptTemplate.findMany({
+      where: key ? { key } : {},
+      orderBy: [{ key: 'asc' }, { version: 'desc' }],
+    });
+
+    return {
+      keys: keys.map((candidate) => ({
+        key: candidate,
+        variables: templateVariablesFor(candidate),
+        builtin: builtinTemplate(candidate).body,
+        activeVersions: templates.filter((template) => template.key === candidate && template.active).map((template) => template.version),
+      })),
+      templates,
+    };
+  }
+
+  // Templates are immutable; every change is saved as the key's next version
+  async createTemplate(
+    adminId: string,
+    data: { key: string; body: string; description?: string; active?: boolean; weight?: number }
+  ): Promise<any> {
+    const errors = templateErrors(data.key, data.body);
+    if (errors.length) {
+      throw new HttpError(400, errors.join('; '));
+    }
+
+    const latest = await prisma.promptTemplate.findFirst({
+      where: { key: data.key },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    try {
+      const template = await prisma.promptTemplate.create({
+        data: {
+          key: data.key,
+          version: (latest?.version ?? 0) + 1,
+          body: data.body,
+          description: data.description,
+          active: data.active ?? false,
+          weight: data.weight,
+          createdById: adminId,
+        },
+      });
+
+      logger.info(`Admin ${adminId} created prompt template ${template.key} v${template.version}`);
+      return template;
+
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new HttpError(409, 'Another version of this template was saved at the same time, try again');
+      }
+      throw error;
+    }
+  }
+
+  // Activation and A/B weight are the only mutable fields
+  async updateTemplate(adminId: string, templateId: string, data: { active?: boolean; weight?: number }): Promise<any> {
+    const existing = await prisma.promptTemplate.findUnique({ where: { id: templateId } });
+
+    if (!existing) {
+      throw new HttpError(404, 'Prompt template not found');
+    }
+
+    const template = await prisma.promptTemplate.update({
+      where: { id: templateId },
+      data: { active: data.active, weight: data.weight },
+    });
+
+    logger.info(
+      `Admin ${adminId} updated prompt template ${template.key} v${template.version} (active: ${template.active}, weight: ${template.weight})`
+    );
+    return template;
+  }
+
+  // Renders a stored or draft template against sample market data, without calling a model
+  async preview(input: PromptPreviewInput): Promise<any> {
+    let template: { key: string; body: string; version: number | null };
+
+    if (input.templateId) {
+      const stored = await prisma.promptTemplate.findUnique({ where: { id: input.templateId } });
+      if (!stored) {
+        throw new HttpError(404, 'Prompt template not found');
+      }
+      template = stored;
+    } else {
+      template = { key: input.key!, body: input.body ?? builtinTemplate(input.key!).body, version: null };
+    }
+
+    const symbol = (input.symbol || input.parameters?.symbol || 'BTC').toUpperCase();
+    const variables = template.key === SUMMARY_TEMPLATE_KEY
+      ? { fullAnalysis: input.fullAnalysis || SAMPLE_FULL_ANALYSIS }
+      : analysisTemplateVariables(template.key, mockCryptoData(symbol), mockMarketData(), input.parameters ?? { symbol }, {});
+
+    return {
+      key: template.key,
+      version: template.version,
+      variables: templateVariables(template.body),
+      errors: templateErrors(template.key, template.body),
+      prompt: renderTemplate(template.body, variables),
+    };
+  }
+
+  // One of the key's active versions, chosen by weight, or the built-in template when none is active
+  async selectTemplate(key: string): Promise<SelectedPromptTemplate> {
+    const active = await prisma.promptTemplate.findMany({
+      where: { key, active: true },
+      select: { id: true, key: true, version: true, body: true, weight: true },
+      orderBy: { version: 'asc' },
+    });
+
+    const picked = weightedPick(active);
+    return picked ? { id: picked.id, key: picked.key, version: picked.version, body: picked.body } : builtinTemplate(key);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  buildReportDocument,
+  isExportFormat,
+  renderHtmlReport,
+  renderMarkdownReport,
+} from '../utils/reportExport.js';
+import { renderPdfReport } from '../utils/reportPdf.js';
+import { OrganizationService } from './organizationService.js';
+
+const prisma = new PrismaClient();
+
+export interface ExportedReport {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+export class ReportExportService {
+  private organizationService: OrganizationService;
+
+  constructor() {
+    this.organizationService = new OrganizationService();
+  }
+
+  // Readable by the same people as the analysis itself: its owner and the organization it was ordered for
+  async exportAnalysis(userId: string, analysisId: string, format: string): Promise<ExportedReport> {
+    if (!isExportFormat(format)) {
+      throw new HttpError(400, `Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const organizationIds = await this.organizationService.getOrganizationIds(userId);
+    const analysis = await prisma.analysis.findFirst({
+      where: {
+        id: analysisId,
+        OR: [{ userId }, { organizationId: { in: organizationIds } }],
+      },
+    });
+
+    if (!analysis) {
+      throw new HttpError(404, 'Analysis not found');
+    }
+
+    if (analysis.status !== 'COMPLETED' || !analysis.result) {
+      throw new HttpError(409, 'Analysis is not completed yet');
+    }
+
+    const document = buildReportDocument(analysis);
+    const body = format === 'pdf'
+      ? await renderPdfReport(document)
+      : format === 'html'
+        ? renderHtmlReport(document)
+        : renderMarkdownReport(document);
+
+    logger.info(`Exported analysis ${analysisId} as ${format} for user ${userId}`);
+
+    return {
+      filename: `cryptoanalyst-${analysis.type.toLowerCase().replace(/_/g, '-')}-${analysis.id}.${format}`,
+      contentType: EXPORT_CONTENT_TYPES[format],
+      body,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,305 @@
+import { AnalysisSchedule, PrismaClient } from '@prisma/client';
+import { analysisPrice, config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { nextCronRun, shortestCronInterval } from '../utils/cron.js';
+import { prepareAnalysisParameters } from './analysisParameters.js';
+import { AnalysisGenerationService } from './analysisGenerationService.js';
+import { CreditService } from './creditService.js';
+import { JobQueueService } from './jobQueueService.js';
+import { JobHandler } from './jobWorker.js';
+
+const prisma = new PrismaClient();
+
+export const RUN_SCHEDULE_JOB = 'run_analysis_schedule';
+
+// Due schedules handled per scheduler tick; the rest wait for the next one
+const DUE_BATCH_SIZE = 100;
+
+const runKey = (scheduleId: string, scheduledFor: Date) => `${RUN_SCHEDULE_JOB}:${scheduleId}:${scheduledFor.toISOString()}`;
+
+export class ScheduleService {
+  private analysisGenerationService: AnalysisGenerationService;
+  private creditService: CreditService;
+  private queue: JobQueueService;
+
+  constructor() {
+    this.analysisGenerationService = new AnalysisGenerationService();
+    this.creditService = new CreditService();
+    this.queue = new JobQueueService();
+  }
+
+  async createSchedule(userId: string, type: string, parameters: any, cadence: string): Promise<any> {
+    if (!analysisPrice(type)) {
+      throw new HttpError(400, 'Invalid analysis type');
+    }
+
+    const count = await prisma.analysisSchedule.count({ where: { userId } });
+    if (count >= config.schedules.maxPerUser) {
+      throw new HttpError(400, `At most ${config.schedules.maxPerUser} schedules per account`);
+    }
+
+    const nextRunAt = this.validateCadence(cadence);
+
+    const schedule = await prisma.analysisSchedule.create({
+      data: {
+        userId,
+        type: type as any,
+        parameters: prepareAnalysisParameters(type, parameters),
+        cadence,
+        nextRunAt,
+      },
+    });
+
+    logger.info(`User ${userId} created ${type} schedule ${schedule.id} (${cadence})`);
+    return this.withPrice(schedule);
+  }
+
+  async listSchedules(userId: string): Promise<any[]> {
+    const schedules = await prisma.analysisSchedule.findMany({
+      where: { userId },
+      include: { _count: { select: { runs: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return schedules.map((schedule) => this.withPrice(schedule));
+  }
+
+  async getSchedule(userId: string, scheduleId: string): Promise<any> {
+    return this.withPrice(await this.findOwned(userId, scheduleId));
+  }
+
+  async pauseSchedule(userId: string, scheduleId: string): Promise<any> {
+    await this.findOwned(userId, scheduleId);
+
+    const schedule = await prisma.analysisSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'PAUSED', nextRunAt: null },
+    });
+
+    return this.withPrice(schedule);
+  }
+
+  // Picks up at the next slot from now; slots missed while paused are not run
+  async resumeSchedule(userId: string, scheduleId: string): Promise<any> {
+    const existing = await this.findOwned(userId, scheduleId);
+
+    const schedule = await prisma.analysisSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'ACTIVE', nextRunAt: nextCronRun(existing.cadence) },
+    });
+
+    return this.withPrice(schedule);
+  }
+
+  // Runs go with the schedule; the analyses they produced stay with the user
+  async deleteSchedule(userId: string, scheduleId: string): Promise<void> {
+    await this.findOwned(userId, scheduleId);
+    await prisma.analysisSchedule.delete({ where: { id: scheduleId } });
+
+    logger.info(`User ${userId} deleted schedule ${scheduleId}`);
+  }
+
+  async listRuns(userId: string, scheduleId: string, page: number, limit: number): Promise<any> {
+    await this.findOwned(userId, scheduleId);
+
+    const [runs, total] = await Promise.all([
+      prisma.analysisScheduleRun.findMany({
+        where: { scheduleId },
+        include: {
+          analysis: { select: { id: true, status: true, price: true, createdAt: true, completedAt: true } },
+        },
+        orderBy: { scheduledFor: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.analysisScheduleRun.count({ where: { scheduleId } }),
+    ]);
+
+    return {
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  // Queues one job per due slot and moves each schedule on to its next slot; called by the scheduler
+  async enqueueDueRuns(now: Date = new Date()): Promise<number> {
+    const due = await prisma.analysisSchedule.findMany({
+      where: { status: 'ACTIVE', nextRunAt: { lte: now } },
+      orderBy: { nextRunAt: 'asc' },
+      take: DUE_BATCH_SIZE,
+    });
+
+    let queued = 0;
+
+    for (const schedule of due) {
+      const scheduledFor = schedule.nextRunAt!;
+
+      // Only the process that moves nextRunAt on queues the slot; a downtime backlog collapses into one run
+      const { count } = await prisma.analysisSchedule.updateMany({
+        where: { id: schedule.id, status: 'ACTIVE', nextRunAt: scheduledFor },
+        data: { nextRunAt: nextCronRun(schedule.cadence, now), lastRunAt: now },
+      });
+
+      if (count === 0) {
+        continue;
+      }
+
+      await this.queue.enqueue(
+        RUN_SCHEDULE_JOB,
+        { scheduleId: schedule.id, scheduledFor: scheduledFor.toISOString() },
+        { dedupeKey: runKey(schedule.id, scheduledFor) }
+      );
+      queued++;
+    }
+
+    return queued;
+  }
+
+  // Charges the owner's credit and orders the analysis for one slot; retries reuse the slot's run
+  async runSchedule(scheduleId: string, scheduledFor: Date): Promise<void> {
+    const schedule = await prisma.analysisSchedule.findUnique({
+      where: { id: scheduleId },
+      include: { user: { select: { disabledAt: true } } },
+    });
+
+    if (!schedule || schedule.status !== 'ACTIVE') {
+      logger.info(`Skipping run of schedule ${scheduleId}: deleted or paused`);
+      return;
+    }
+
+    // Disabled (or merged away) accounts are not charged
+    if (schedule.user.disabledAt) {
+      logger.info(`Skipping run of schedule ${scheduleId}: owner's account is disabled`);
+      return;
+    }
+
+    const existing = await prisma.analysisScheduleRun.findUnique({
+      where: { scheduleId_scheduledFor: { scheduleId, scheduledFor } },
+      include: { analysis: { select: { status: true } } },
+    });
+
+    if (existing) {
+      // Charged on an earlier attempt that failed before queueing generation
+      if (existing.analysisId && existing.analysis?.status === 'PROCESSING') {
+        await this.analysisGenerationService.enqueue(existing.analysisId);
+      }
+      return;
+    }
+
+    const price = analysisPrice(schedule.type);
+    if (!price) {
+      await prisma.analysisScheduleRun.create({
+        data: { scheduleId, scheduledFor, status: 'FAILED', error: `No price for ${schedule.type}` },
+      });
+      return;
+    }
+
+    let analysisId: string;
+    try {
+      analysisId = await this.orderRun(schedule, scheduledFor, price);
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 402) {
+        await prisma.analysisScheduleRun.create({
+          data: { scheduleId, scheduledFor, status: 'INSUFFICIENT_CREDIT', error: error.message },
+        });
+        logger.warn(`Schedule ${scheduleId} skipped ${scheduledFor.toISOString()}: ${error.message}`);
+        return;
+      }
+      throw error;
+    }
+
+    await this.analysisGenerationService.enqueue(analysisId);
+    logger.info(`Schedule ${scheduleId} ordered analysis ${analysisId} for ${scheduledFor.toISOString()}`);
+  }
+
+  // Payment settled from credit, the analysis and the run, all or nothing
+  private async orderRun(schedule: AnalysisSchedule, scheduledFor: Date, price: number): Promise<string> {
+    return prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          userId: schedule.userId,
+          amount: price,
+          currency: 'USD',
+          status: 'COMPLETED',
+          purpose: 'CREDIT_SPEND',
+          completedAt: new Date(),
+        },
+      });
+
+      await this.creditService.charge(tx, schedule.userId, price, payment.id);
+
+      const analysis = await tx.analysis.create({
+        data: {
+          userId: schedule.userId,
+          type: schedule.type,
+          parameters: schedule.parameters as any,
+          status: 'PROCESSING',
+          price,
+          paymentId: payment.id,
+        },
+      });
+
+      await tx.analysisScheduleRun.create({
+        data: { scheduleId: schedule.id, scheduledFor, status: 'QUEUED', analysisId: analysis.id },
+      });
+
+      return analysis.id;
+    });
+  }
+
+  get jobHandler(): JobHandler {
+    return {
+      run: async (payload) => {
+        await this.runSchedule(payload.scheduleId, new Date(payload.scheduledFor));
+      },
+      // Out of retries before anything was charged: record the slot as failed
+      onDead: async (payload, error) => {
+        await prisma.analysisScheduleRun.upsert({
+          where: { scheduleId_scheduledFor: { scheduleId: payload.scheduleId, scheduledFor: new Date(payload.scheduledFor) } },
+          create: {
+            scheduleId: payload.scheduleId,
+            scheduledFor: new Date(payload.scheduledFor),
+            status: 'FAILED',
+            error: error instanceof Error ? error.message : String(error),
+          },
+          update: {},
+        }).catch((upsertError) => logger.warn(`Could not record failed run of schedule ${payload.scheduleId}:`, upsertError));
+      },
+    };
+  }
+
+  private validateCadence(cadence: string): Date {
+    try {
+      if (shortestCronInterval(cadence) < config.schedules.minIntervalMinutes * 60 * 1000) {
+        throw new HttpError(400, `Schedules may run at most every ${config.schedules.minIntervalMinutes} minutes`);
+      }
+      return nextCronRun(cadence);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new HttpError(400, error instanceof Error ? error.message : 'Invalid cadence');
+    }
+  }
+
+  private async findOwned(userId: string, scheduleId: string) {
+    const schedule = await prisma.analysisSchedule.findFirst({ where: { id: scheduleId, userId } });
+
+    if (!schedule) {
+      throw new HttpError(404, 'Schedule not found');
+    }
+
+    return schedule;
+  }
+
+  // Runs are charged at the catalog price current at run time
+  private withPrice<T extends { type: string }>(schedule: T) {
+    return { ...schedule, pricePerRun: analysisPrice(schedule.type) ?? null };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { ScheduleService } from './scheduleService.js';
+import { BacktestService } from './backtestService.js';
+
+// Periodically turns due analysis schedules into queued jobs and queues the backtest sweep; safe to run in several processes
+export class Scheduler {
+  private scheduleService: ScheduleService;
+  private backtestService: BacktestService;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private ticking: Promise<void> | null = null;
+
+  constructor(
+    scheduleService: ScheduleService = new ScheduleService(),
+    backtestService: BacktestService = new BacktestService()
+  ) {
+    this.scheduleService = scheduleService;
+    this.backtestService = backtestService;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info(`Scheduler started (every ${config.schedules.pollIntervalMs / 1000}s)`);
+    this.scheduleTick(0);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.ticking;
+    logger.info('Scheduler stopped');
+  }
+
+  private scheduleTick(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.ticking = this.tick().finally(() => {
+        this.ticking = null;
+        this.scheduleTick(config.schedules.pollIntervalMs);
+      });
+    }, delayMs);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const queued = await this.scheduleService.enqueueDueRuns();
+      if (queued > 0) {
+        logger.info(`Scheduler queued ${queued} scheduled analysis run(s)`);
+      }
+
+      await this.backtestService.enqueueSweep();
+    } catch (error) {
+      logger.error('Scheduler tick error:', error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
+const hashSecret = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+export class SessionService {
+  async createSession(userId: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const secret = crypto.randomBytes(32).toString('hex');
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashSecret(secret),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt: this.refreshExpiry(),
+      },
+    });
+
+    return {
+      token: this.signAccessToken(userId, session.id),
+      refreshToken: `${session.id}.${secret}`,
+    };
+  }
+
+  // Rotates the refresh token. Presenting an already rotated token revokes the whole session.
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthTokens> {
+    const [sessionId, secret] = refreshToken.split('.');
+
+    if (!sessionId || !secret) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new HttpError(401, 'Invalid refresh token');
+    }
+
+    const newSecret = crypto.randomBytes(32).toString('hex');
+
+    // Conditional update so a token can only be rotated once, even under concurrent requests
+    const rotated = await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: hashSecret(secret),
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: hashSecret(newSecret),
+        lastUsedAt: new Date(),
+        expiresAt: this.refreshExpiry(),
+        userAgent: context.userAgent ?? session.userAgent,
+        ipAddress: context.ipAddress ?? session.ipAddress,
+      },
+    });
+
+    if (rotated.count !== 1) {
+      await this.revokeSession(session.userId, session.id, 'refresh_token_reuse');
+      logger.warn(`Refresh token reuse detected for session ${session.id} (user ${session.userId})`);
+      throw new HttpError(401, 'Refresh token reuse detected, session revoked');
+    }
+
+    return {
+      token: this.signAccessToken(session.userId, session.id),
+      refreshToken: `${session.id}.${newSecret}`,
+    };
+  }
+
+  // Returns the session behind an access token, or throws if it was revoked or expired
+  async verifyAccessToken(token: string): Promise<{ userId: string; sessionId: string }> {
+    let decoded: any;
+    try {
+      decoded = jwt.verify(token, config.jwt.secret);
+    } catch (error) {
+      throw new HttpError(401, 'Invalid or expired token');
+    }
+
+    // Tokens issued before sessions existed carry no session and cannot be revoked
+    if (!decoded.sessionId) {
+      throw new HttpError(401, 'Invalid or expired token');
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: decoded.sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true },
+    });
+
+    if (!session || session.userId !== decoded.userId || session.revokedAt || session.expiresAt < new Date()) {
+      throw new HttpError(401, 'Session has been revoked');
+    }
+
+    return { userId: session.userId, sessionId: decoded.sessionId };
+  }
+
+  async listSessions(userId: string): Promise<any[]> {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        createdAt: true,
+        lastUsedAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async revokeSession(userId: string, sessionId: string, reason: string = 'revoked'): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count > 0;
+  }
+
+  async revokeAllSessions(userId: string, exceptSessionId?: string, reason: string = 'revoked'): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    logger.info(`Revoked ${result.count} sessions for user ${userId}`);
+    return result.count;
+  }
+
+  private signAccessToken(userId: string, sessionId: string): string {
+    return jwt.sign(
+      { userId, sessionId },
+      config.jwt.secret,
+      { expiresIn: config.jwt.accessTokenTtl as jwt.SignOptions['expiresIn'] }
+    );
+  }
+
+  private refreshExpiry(): Date {
+    return new Date(Date.now() + config.jwt.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+}
\ No newline at end of file
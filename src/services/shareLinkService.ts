@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+const SHARE_TOKEN_PREFIX_LENGTH = 8;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const shareUrl = (token: string) => `${config.app.frontendUrl}/shared/${encodeURIComponent(token)}`;
+
+const publicFields = {
+  id: true,
+  analysisId: true,
+  prefix: true,
+  expiresAt: true,
+  maxViews: true,
+  viewCount: true,
+  lastViewedAt: true,
+  createdAt: true,
+};
+
+// Links that still open: not revoked, not expired and with views left
+const activeWhere = (now: Date) => ({
+  revokedAt: null,
+  AND: [
+    { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    { OR: [{ maxViews: null }, { viewCount: { lt: prisma.analysisShareLink.fields.maxViews } }] },
+  ],
+});
+
+export class ShareLinkService {
+  // Returns the plaintext token (and link) once; only its hash is stored
+  async createLink(
+    userId: string,
+    analysisId: string,
+    options: { expiresAt?: Date; maxViews?: number } = {}
+  ): Promise<{ token: string; url: string; shareLink: any }> {
+    const analysis = await prisma.analysis.findFirst({
+      where: { id: analysisId, userId },
+      select: { id: true, status: true },
+    });
+
+    if (!analysis) {
+      throw new HttpError(404, 'Analysis not found');
+    }
+
+    if (analysis.status !== 'COMPLETED') {
+      throw new HttpError(409, 'Only completed analyses can be shared');
+    }
+
+    const token = crypto.randomBytes(24).toString('base64url');
+
+    const shareLink = await prisma.analysisShareLink.create({
+      data: {
+        analysisId,
+        tokenHash: hashToken(token),
+        prefix: token.substring(0, SHARE_TOKEN_PREFIX_LENGTH),
+        expiresAt: options.expiresAt,
+        maxViews: options.maxViews,
+      },
+      select: publicFields,
+    });
+
+    logger.info(`User ${userId} created share link ${shareLink.id} for analysis ${analysisId}`);
+    return { token, url: shareUrl(token), shareLink };
+  }
+
+  // Active links on the user's analyses, optionally for one analysis
+  async listLinks(userId: string, analysisId?: string): Promise<any[]> {
+    return prisma.analysisShareLink.findMany({
+      where: {
+        ...activeWhere(new Date()),
+        analysis: { userId, ...(analysisId ? { id: analysisId } : {}) },
+      },
+      select: publicFields,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeLink(userId: string, linkId: string): Promise<boolean> {
+    const result = await prisma.analysisShareLink.updateMany({
+      where: { id: linkId, revokedAt: null, analysis: { userId } },
+      data: { revokedAt: new Date() },
+    });
+
+    if (result.count > 0) {
+      logger.info(`Revoked share link ${linkId} for user ${userId}`);
+    }
+    return result.count > 0;
+  }
+
+  // Counts the view and returns the report without owner, billing or payment details
+  async viewShared(token: string): Promise<any> {
+    const now = new Date();
+    const link = await prisma.analysisShareLink.findUnique({
+      where: { tokenHash: hashToken(token) },
+      select: { id: true },
+    });
+
+    // The view is only counted while the link is still active, so concurrent views cannot exceed the limit
+    const { count } = link
+      ? await prisma.analysisShareLink.updateMany({
+        where: { id: link.id, ...activeWhere(now) },
+        data: { viewCount: { increment: 1 }, lastViewedAt: now },
+      })
+      : { count: 0 };
+
+    if (count === 0) {
+      throw new HttpError(404, 'Share link is invalid or has expired');
+    }
+
+    const shareLink = await prisma.analysisShareLink.findUniqueOrThrow({
+      where: { id: link!.id },
+      include: {
+        analysis: {
+          select: { id: true, type: true, parameters: true, result: true, status: true, createdAt: true, completedAt: true },
+        },
+      },
+    });
+
+    return {
+      analysis: {
+        ...shareLink.analysis,
+        structured: (shareLink.analysis.result as any)?.structured ?? null,
+      },
+      shareLink: {
+        expiresAt: shareLink.expiresAt,
+        viewsRemaining: shareLink.maxViews !== null ? Math.max(0, shareLink.maxViews - shareLink.viewCount) : null,
+      },
+    };
+  }
+}
\ No newline at end of file
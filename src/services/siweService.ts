@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+
+const prisma = new PrismaClient();
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+// EIP-4361 (Sign-In with Ethereum) message fields
+export interface SiweMessage {
+  scheme?: string;
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+const FIELD_NAMES: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+const invalid = (reason: string) => new HttpError(401, `Invalid SIWE message: ${reason}`);
+
+const parseTimestamp = (value: string, field: string): number => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw invalid(`${field} is not a valid timestamp`);
+  }
+  return time;
+};
+
+export const parseSiweMessage = (message: string): SiweMessage => {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+
+  // Header: "[scheme://]domain wants you to sign in with your Ethereum account:"
+  const header = lines[0] || '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw invalid('missing header');
+  }
+
+  let domain = header.slice(0, -HEADER_SUFFIX.length);
+  let scheme: string | undefined;
+  const schemeIndex = domain.indexOf('://');
+  if (schemeIndex !== -1) {
+    scheme = domain.slice(0, schemeIndex);
+    domain = domain.slice(schemeIndex + 3);
+  }
+
+  const address = lines[1] || '';
+  if (!ethers.isAddress(address)) {
+    throw invalid('malformed address');
+  }
+
+  // Optional statement sits between the address and the first field
+  let index = 2;
+  const statementLines: string[] = [];
+  while (index < lines.length && !lines[index].startsWith('URI: ')) {
+    if (lines[index] !== '') {
+      statementLines.push(lines[index]);
+    }
+    index++;
+  }
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  const resources: string[] = [];
+  let inResources = false;
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (inResources) {
+      if (!line.startsWith('- ')) {
+        throw invalid('malformed resources');
+      }
+      resources.push(line.slice(2));
+      continue;
+    }
+
+    if (line === 'Resources:') {
+      inResources = true;
+      continue;
+    }
+
+    const separator = line.indexOf(': ');
+    const key = separator === -1 ? undefined : FIELD_NAMES[line.slice(0, separator)];
+    if (!key) {
+      throw invalid(`unexpected line "${line}"`);
+    }
+    if (fields[key] !== undefined) {
+      throw invalid(`duplicate field "${line.slice(0, separator)}"`);
+    }
+    fields[key] = line.slice(separator + 2);
+  }
+
+  if (!fields.uri || !fields.version || !fields.chainId || !fields.nonce || !fields.issuedAt) {
+    throw invalid('missing required field');
+  }
+
+  if (!/^[a-zA-Z0-9]{8,}$/.test(fields.nonce)) {
+    throw invalid('nonce must be at least 8 alphanumeric characters');
+  }
+
+  const chainId = parseInt(fields.chainId);
+  if (!/^\d+$/.test(fields.chainId) || Number.isNaN(chainId)) {
+    throw invalid('chain ID must be numeric');
+  }
+
+  return {
+    scheme,
+    domain,
+    address,
+    statement: statementLines.length ? statementLines.join('\n') : undefined,
+    uri: fields.uri,
+    version: fields.version,
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+    requestId: fields.requestId,
+    resources: resources.length ? resources : undefined,
+  };
+};
+
+export class SiweService {
+  async createNonce(address: string): Promise<{ nonce: string; expiresAt: Date }> {
+    const normalizedAddress = address.toLowerCase();
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const expiresAt = new Date(Date.now() + config.siwe.nonceTtlMinutes * 60 * 1000);
+
+    // Drop stale nonces for this address so the table does not grow unbounded
+    await prisma.authNonce.deleteMany({
+      where: {
+        address: normalizedAddress,
+        OR: [{ expiresAt: { lt: new Date() } }, { consumedAt: { not: null } }],
+      },
+    });
+
+    await prisma.authNonce.create({
+      data: { nonce, address: normalizedAddress, expiresAt },
+    });
+
+    return { nonce, expiresAt };
+  }
+
+  // Verifies a signed SIWE message and consumes its nonce. Returns the lowercased signer address.
+  async verifyLogin(message: string, signature: string): Promise<string> {
+    const siwe = parseSiweMessage(message);
+    const now = Date.now();
+    const skew = config.siwe.clockSkewSeconds * 1000;
+
+    if (siwe.domain !== config.siwe.domain) {
+      throw invalid(`domain ${siwe.domain} is not accepted`);
+    }
+
+    if (siwe.version !== '1') {
+      throw invalid(`unsupported version ${siwe.version}`);
+    }
+
+    if (!config.siwe.chainIds.includes(siwe.chainId)) {
+      throw invalid(`chain ID ${siwe.chainId} is not accepted`);
+    }
+
+    const issuedAt = parseTimestamp(siwe.issuedAt, 'Issued At');
+    if (issuedAt > now + skew) {
+      throw invalid('issued in the future');
+    }
+
+    if (siwe.expirationTime && parseTimestamp(siwe.expirationTime, 'Expiration Time') <= now - skew) {
+      throw invalid('message has expired');
+    }
+
+    if (siwe.notBefore && parseTimestamp(siwe.notBefore, 'Not Before') > now + skew) {
+      throw invalid('message is not yet valid');
+    }
+
+    let recoveredAddress: string;
+    try {
+      recoveredAddress = ethers.verifyMessage(message, signature);
+    } catch (error) {
+      throw new HttpError(401, 'Signature verification failed');
+    }
+
+    const address = siwe.address.toLowerCase();
+    if (recoveredAddress.toLowerCase() !== address) {
+      throw new HttpError(401, 'Invalid signature');
+    }
+
+    const storedNonce = await prisma.authNonce.findUnique({
+      where: { nonce: siwe.nonce },
+    });
+
+    if (!storedNonce || storedNonce.address !== address) {
+      throw invalid('unknown nonce');
+    }
+
+    if (issuedAt < storedNonce.createdAt.getTime() - skew) {
+      throw invalid('issued before the nonce');
+    }
+
+    // Conditional update so two concurrent logins cannot both consume the nonce
+    const consumed = await prisma.authNonce.updateMany({
+      where: {
+        id: storedNonce.id,
+        consumedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count !== 1) {
+      throw invalid('nonce has expired or was already used');
+    }
+
+    logger.info(`SIWE login verified for ${address}`);
+    return address;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { PrismaClient } from '@prisma/client';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { HttpError } from '../utils/errors.js';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp.js';
+import { hasRealEmail } from './accountLinkService.js';
+import { LoginThrottleService, twoFactorThrottleKey } from './loginThrottleService.js';
+
+const prisma = new PrismaClient();
+
+const encryptionKey = () =>
+  config.twoFactor.encryptionKey
+    ? Buffer.from(config.twoFactor.encryptionKey, 'hex')
+    : crypto.createHash('sha256').update(`totp:${config.jwt.secret}`).digest();
+
+// AES-256-GCM, stored as iv:tag:ciphertext (base64)
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, ciphertext] = stored.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+export class TwoFactorService {
+  private loginThrottleService: LoginThrottleService;
+
+  constructor() {
+    this.loginThrottleService = new LoginThrottleService();
+  }
+
+  isEnabled(user: { twoFactorEnabledAt: Date | null }): boolean {
+    return Boolean(user.twoFactorEnabledAt);
+  }
+
+  // Starts (or restarts) enrollment; 2FA is only active once a code is confirmed
+  async beginSetup(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new HttpError(400, 'Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null },
+    });
+
+    const accountName = hasRealEmail(user) ? user.email : user.walletAddress || user.id;
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(secret, accountName, config.twoFactor.issuer),
+    };
+  }
+
+  async enable(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (user.twoFactorEnabledAt) {
+      throw new HttpError(400, 'Two-factor authentication is already enabled');
+    }
+
+    if (!user.twoFactorSecret) {
+      throw new HttpError(400, 'Start two-factor setup first');
+    }
+
+    await this.verifyTotpCode(user, code);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabledAt: new Date() },
+    });
+
+    logger.info(`Two-factor authentication enabled for user ${userId}`);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  // Requires a fresh TOTP or recovery code, not just a valid session
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.requireEnabled(userId);
+    await this.verifyCode(user, code);
+
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: userId },
+        data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+      }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+
+    logger.info(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.requireEnabled(userId);
+    await this.verifyTotpCode(user, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  async getStatus(userId: string): Promise<{ enabled: boolean; enabledAt: Date | null; recoveryCodesRemaining: number }> {
+    const user = await this.findUser(userId);
+    const recoveryCodesRemaining = await prisma.twoFactorRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+
+    return {
+      enabled: this.isEnabled(user),
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorEnabledAt ? recoveryCodesRemaining : 0,
+    };
+  }
+
+  // Short-lived token proving the first factor passed; exchanged once at /2fa/verify
+  async createChallenge(userId: string): Promise<string> {
+    const jti = crypto.randomUUID();
+    const token = jwt.sign(
+      { userId, purpose: 'two_factor_challenge' },
+      config.jwt.secret,
+      { expiresIn: config.twoFactor.challengeTtl as jwt.SignOptions['expiresIn'], jwtid: jti }
+    );
+    const { exp } = jwt.decode(token) as jwt.JwtPayload;
+
+    await prisma.twoFactorChallenge.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } });
+    await prisma.twoFactorChallenge.create({
+      data: { id: jti, userId, expiresAt: new Date(exp! * 1000) },
+    });
+
+    return token;
+  }
+
+  // Returns the user id once the challenge and the second factor both check out
+  async verifyChallenge(challengeToken: string, code: string): Promise<string> {
+    let payload: any;
+    try {
+      payload = jwt.verify(challengeToken, config.jwt.secret);
+    } catch (error) {
+      throw new HttpError(401, 'Challenge is invalid or has expired');
+    }
+
+    if (payload.purpose !== 'two_factor_challenge' || !payload.jti) {
+      throw new HttpError(401, 'Challenge is invalid or has expired');
+    }
+
+    const challenge = await prisma.twoFactorChallenge.findUnique({ where: { id: payload.jti } });
+
+    if (!challenge || challenge.consumedAt || challenge.failures >= config.twoFactor.challengeMaxFailures) {
+      throw new HttpError(401, 'Challenge is invalid or has expired');
+    }
+
+    const user = await this.requireEnabled(payload.userId);
+
+    if (user.disabledAt) {
+      throw new HttpError(403, 'Account disabled');
+    }
+
+    // Guesses count against the challenge and, across challenges, against the user
+    try {
+      await this.loginThrottleService.guard([twoFactorThrottleKey(user.id)], () => this.verifyCode(user, code));
+    } catch (error) {
+      if (error instanceof HttpError && error.status === 401) {
+        await prisma.twoFactorChallenge.update({
+          where: { id: challenge.id },
+          data: { failures: { increment: 1 } },
+        });
+      }
+      throw error;
+    }
+
+    // Conditional update so a challenge cannot be exchanged twice concurrently
+    const consumed = await prisma.twoFactorChallenge.updateMany({
+      where: { id: challenge.id, consumedAt: null, failures: { lt: config.twoFactor.challengeMaxFailures } },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new HttpError(401, 'Challenge is invalid or has expired');
+    }
+
+    await this.loginThrottleService.recordSuccess(twoFactorThrottleKey(user.id));
+    return user.id;
+  }
+
+  // Password and wallet proofs of an account with 2FA enabled also need one of its codes, throttled like login's
+  async requireSecondFactor(user: { id: string; twoFactorEnabledAt: Date | null }, code?: string): Promise<void> {
+    if (!this.isEnabled(user)) {
+      return;
+    }
+
+    if (!code) {
+      throw new HttpError(401, 'Two-factor code required');
+    }
+
+    await this.loginThrottleService.guard([twoFactorThrottleKey(user.id)], () => this.verifyCode(user, code));
+    await this.loginThrottleService.recordSuccess(twoFactorThrottleKey(user.id));
+  }
+
+  // Accepts either a TOTP code or an unused recovery code
+  private async verifyCode(user: any, code: string): Promise<void> {
+    if (/^\d{6}$/.test(code.trim())) {
+      return this.verifyTotpCode(user, code.trim());
+    }
+
+    const consumed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId: user.id, codeHash: hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new HttpError(401, 'Invalid two-factor code');
+    }
+
+    logger.info(`Recovery code used by user ${user.id}`);
+  }
+
+  private async verifyTotpCode(user: any, code: string): Promise<void> {
+    const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+
+    if (step === null || (user.twoFactorLastStep !== null && step <= user.twoFactorLastStep)) {
+      throw new HttpError(401, 'Invalid two-factor code');
+    }
+
+    // Conditional update so the same code cannot be accepted twice concurrently
+    const recorded = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    if (recorded.count === 0) {
+      throw new HttpError(401, 'Invalid two-factor code');
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const codes = Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+    });
+
+    await prisma.$transaction([
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.twoFactorRecoveryCode.createMany({
+        data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  private async requireEnabled(userId: string) {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabledAt || !user.twoFactorSecret) {
+      throw new HttpError(400, 'Two-factor authentication is not enabled');
+    }
+
+    return user;
+  }
+
+  private async findUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    return user;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+// Fields set by the authenticate middleware
+declare global {
+  namespace Express {
+    interface Request {
+      user?: any;
+      sessionId?: string;
+      apiKey?: { id: string; scopes: string[] };
+    }
+  }
+}
+
+export {};
\ No newline at end of file
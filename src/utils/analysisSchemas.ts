@@ -0,0 +1,142 @@
+import Joi from 'joi';
+
+const outlook = Joi.string().valid('bullish', 'bearish', 'neutral');
+const price = Joi.number().positive();
+
+// Machine-readable fields the model returns alongside each report
+export const analysisOutputSchemas: Record<string, Joi.ObjectSchema> = {
+  BASIC_OVERVIEW: Joi.object({
+    outlook: outlook.required(),
+    riskScore: Joi.number().integer().min(1).max(10).required(),
+    support: Joi.array().items(price).max(5).required(),
+    resistance: Joi.array().items(price).max(5).required(),
+    keyPoints: Joi.array().items(Joi.string()).max(10).required(),
+  }),
+
+  TECHNICAL_ANALYSIS: Joi.object({
+    trend: outlook.required(),
+    entry: Joi.object({
+      low: price.required(),
+      high: price.required(),
+    }).required(),
+    targets: Joi.array().items(price).min(1).max(5).required(),
+    stopLoss: price.required(),
+    riskReward: Joi.number().positive().required(),
+    timeframe: Joi.string().required(),
+  }),
+
+  FUNDAMENTAL_ANALYSIS: Joi.object({
+    score: Joi.number().integer().min(1).max(100).required(),
+    conviction: Joi.string().valid('low', 'medium', 'high').required(),
+    strengths: Joi.array().items(Joi.string()).max(10).required(),
+    risks: Joi.array().items(Joi.string()).max(10).required(),
+  }),
+
+  PORTFOLIO_REVIEW: Joi.object({
+    diversificationScore: Joi.number().integer().min(1).max(100).required(),
+    allocations: Joi.array().items(Joi.object({
+      asset: Joi.string().required(),
+      targetPercent: Joi.number().min(0).max(100).required(),
+    })).required(),
+    actions: Joi.array().items(Joi.string()).max(10).required(),
+  }),
+
+  MARKET_SENTIMENT: Joi.object({
+    sentimentScore: Joi.number().integer().min(-100).max(100).required(),
+    label: outlook.required(),
+    drivers: Joi.array().items(Joi.string()).max(10).required(),
+  }),
+
+  DEFI_OPPORTUNITIES: Joi.object({
+    opportunities: Joi.array().items(Joi.object({
+      protocol: Joi.string().required(),
+      chain: Joi.string().optional(),
+      strategy: Joi.string().required(),
+      apy: Joi.number().min(0).required(),
+      riskRating: Joi.number().integer().min(1).max(10).required(),
+    })).max(10).required(),
+  }),
+
+  COMPARISON: Joi.object({
+    ranking: Joi.array().items(Joi.object({
+      symbol: Joi.string().uppercase().required(),
+      position: Joi.number().integer().min(1).required(),
+      score: Joi.number().integer().min(1).max(100).required(),
+      rationale: Joi.string().required(),
+    })).min(2).max(5).unique('symbol').required(),
+    winner: Joi.string().uppercase().required(),
+  }),
+};
+
+// Shape shown to the model; kept next to the schemas so the two change together
+export const analysisOutputExamples: Record<string, object> = {
+  BASIC_OVERVIEW: {
+    outlook: 'bullish | bearish | neutral',
+    riskScore: '1-10',
+    support: ['price'],
+    resistance: ['price'],
+    keyPoints: ['string'],
+  },
+  TECHNICAL_ANALYSIS: {
+    trend: 'bullish | bearish | neutral',
+    entry: { low: 'price', high: 'price' },
+    targets: ['price'],
+    stopLoss: 'price',
+    riskReward: 'number, reward per unit of risk to the first target',
+    timeframe: 'string, e.g. "2-4 weeks"',
+  },
+  FUNDAMENTAL_ANALYSIS: {
+    score: '1-100',
+    conviction: 'low | medium | high',
+    strengths: ['string'],
+    risks: ['string'],
+  },
+  PORTFOLIO_REVIEW: {
+    diversificationScore: '1-100',
+    allocations: [{ asset: 'symbol', targetPercent: '0-100' }],
+    actions: ['string'],
+  },
+  MARKET_SENTIMENT: {
+    sentimentScore: '-100 to 100',
+    label: 'bullish | bearish | neutral',
+    drivers: ['string'],
+  },
+  DEFI_OPPORTUNITIES: {
+    opportunities: [{ protocol: 'string', chain: 'string', strategy: 'string', apy: 'percent', riskRating: '1-10' }],
+  },
+  COMPARISON: {
+    ranking: [{ symbol: 'ticker', position: '1 = most attractive', score: '1-100', rationale: 'string' }],
+    winner: 'ticker ranked first',
+  },
+};
+
+// Pulls a JSON object out of a reply that may wrap it in prose or a code fence
+export const extractJson = (reply: string): any => {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : reply;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('Reply contains no JSON object');
+  }
+
+  return JSON.parse(candidate.substring(start, end + 1));
+};
+
+// Validates and repairs what it safely can: numeric strings are converted and unknown keys dropped
+export const validateAnalysisOutput = (analysisType: string, value: any): { value?: any; error?: string } => {
+  const schema = analysisOutputSchemas[analysisType];
+
+  if (!schema) {
+    return { error: `No output schema for ${analysisType}` };
+  }
+
+  const { value: validated, error } = schema.validate(value, { convert: true, stripUnknown: true, abortEarly: false });
+
+  if (error) {
+    return { error: error.details.map((detail) => detail.message).join('; ') };
+  }
+
+  return { value: validated };
+};
\ No newline at end of file
@@ -0,0 +1,38 @@
+// Assets the service can price and analyze, keyed by ticker; CoinGecko addresses coins by id, not ticker
+export const KNOWN_ASSETS: Record<string, { name: string; coingeckoId: string }> = {
+  BTC: { name: 'Bitcoin', coingeckoId: 'bitcoin' },
+  ETH: { name: 'Ethereum', coingeckoId: 'ethereum' },
+  USDT: { name: 'Tether', coingeckoId: 'tether' },
+  USDC: { name: 'USD Coin', coingeckoId: 'usd-coin' },
+  BNB: { name: 'BNB', coingeckoId: 'binancecoin' },
+  SOL: { name: 'Solana', coingeckoId: 'solana' },
+  XRP: { name: 'XRP', coingeckoId: 'ripple' },
+  ADA: { name: 'Cardano', coingeckoId: 'cardano' },
+  DOGE: { name: 'Dogecoin', coingeckoId: 'dogecoin' },
+  TRX: { name: 'TRON', coingeckoId: 'tron' },
+  TON: { name: 'Toncoin', coingeckoId: 'the-open-network' },
+  AVAX: { name: 'Avalanche', coingeckoId: 'avalanche-2' },
+  DOT: { name: 'Polkadot', coingeckoId: 'polkadot' },
+  LINK: { name: 'Chainlink', coingeckoId: 'chainlink' },
+  MATIC: { name: 'Polygon', coingeckoId: 'matic-network' },
+  LTC: { name: 'Litecoin', coingeckoId: 'litecoin' },
+  BCH: { name: 'Bitcoin Cash', coingeckoId: 'bitcoin-cash' },
+  ATOM: { name: 'Cosmos', coingeckoId: 'cosmos' },
+  UNI: { name: 'Uniswap', coingeckoId: 'uniswap' },
+  XLM: { name: 'Stellar', coingeckoId: 'stellar' },
+  NEAR: { name: 'NEAR Protocol', coingeckoId: 'near' },
+  APT: { name: 'Aptos', coingeckoId: 'aptos' },
+  ARB: { name: 'Arbitrum', coingeckoId: 'arbitrum' },
+  OP: { name: 'Optimism', coingeckoId: 'optimism' },
+  AAVE: { name: 'Aave', coingeckoId: 'aave' },
+  MKR: { name: 'Maker', coingeckoId: 'maker' },
+  DAI: { name: 'Dai', coingeckoId: 'dai' },
+};
+
+export const KNOWN_SYMBOLS = Object.keys(KNOWN_ASSETS);
+
+export const isKnownAsset = (symbol: string): boolean => Boolean(KNOWN_ASSETS[symbol.toUpperCase()]);
+
+// Unknown tickers fall back to their lowercase form, which matches CoinGecko ids for many smaller coins
+export const coingeckoId = (symbol: string): string =>
+  KNOWN_ASSETS[symbol.toUpperCase()]?.coingeckoId || symbol.toLowerCase();
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { PricePoint } from './indicators.js';
+
+// Replays the price calls of completed analyses against the price history that followed them.
+// A call resolves on whichever comes first: its first target (TARGET_HIT) or its stop (STOP_HIT);
+// when its horizon passes without either it is NEITHER, and until then it stays OPEN.
+
+export const BACKTESTED_TYPES = ['TECHNICAL_ANALYSIS', 'BASIC_OVERVIEW'] as const;
+
+export type BacktestDirection = 'LONG' | 'SHORT';
+
+export type BacktestOutcome = 'OPEN' | 'TARGET_HIT' | 'STOP_HIT' | 'NEITHER' | 'NO_CALL';
+
+export type PriceCall = {
+  direction: BacktestDirection;
+  referencePrice: number;
+  entry: { low: number; high: number } | null;
+  targets: number[]; // nearest first
+  stopLoss: number | null;
+  horizonDays: number;
+};
+
+export type TargetResult = {
+  price: number;
+  hitAt: string | null;
+  hoursToHit: number | null;
+};
+
+export type CallReplay = {
+  outcome: BacktestOutcome;
+  entryHitAt: Date | null;
+  targets: TargetResult[];
+  stopHitAt: Date | null;
+  hoursToOutcome: number | null;
+  horizonEndsAt: Date;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNIT_DAYS: Record<string, number> = { hour: 1 / 24, day: 1, week: 7, month: 30 };
+
+const isPrice = (value: any): value is number => typeof value === 'number' && isFinite(value) && value > 0;
+
+const hoursBetween = (from: Date, to: number) => Math.round(((to - from.getTime()) / HOUR_MS) * 10) / 10;
+
+// "2-4 weeks" -> 28, "10 days" -> 10; the upper end of a range is the call's horizon
+export const parseTimeframeDays = (timeframe: any): number | null => {
+  const match = typeof timeframe === 'string'
+    && timeframe.match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(hour|day|week|month)s?/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const days = Number(match[2] ?? match[1]) * UNIT_DAYS[match[3].toLowerCase()];
+  return days > 0 ? days : null;
+};
+
+// Targets and stop from the structured output; null when the analysis made no directional call
+export const extractPriceCall = (analysisType: string, result: any, defaultHorizonDays: number): PriceCall | null => {
+  const structured = result?.structured;
+  const referencePrice = result?.cryptoData?.price;
+
+  if (!structured || !isPrice(referencePrice)) {
+    return null;
+  }
+
+  if (analysisType === 'TECHNICAL_ANALYSIS') {
+    const targets: number[] = (structured.targets || []).filter(isPrice);
+    if (!targets.length) {
+      return null;
+    }
+
+    // Targets below the price the call was made at mean a short, whatever trend the model reported
+    const direction: BacktestDirection = targets[0] < referencePrice ? 'SHORT' : 'LONG';
+    const entry = isPrice(structured.entry?.low) && isPrice(structured.entry?.high)
+      ? { low: Math.min(structured.entry.low, structured.entry.high), high: Math.max(structured.entry.low, structured.entry.high) }
+      : null;
+
+    return {
+      direction,
+      referencePrice,
+      entry,
+      targets: [...targets].sort((a, b) => (direction === 'LONG' ? a - b : b - a)),
+      stopLoss: isPrice(structured.stopLoss) ? structured.stopLoss : null,
+      horizonDays: parseTimeframeDays(structured.timeframe) ?? defaultHorizonDays,
+    };
+  }
+
+  if (analysisType === 'BASIC_OVERVIEW') {
+    const support: number[] = (structured.support || []).filter(isPrice);
+    const resistance: number[] = (structured.resistance || []).filter(isPrice);
+
+    // Bullish calls aim for the resistance above and give up below the nearest support; bearish ones mirror that
+    if (structured.outlook === 'bullish') {
+      const targets = resistance.filter((level) => level > referencePrice).sort((a, b) => a - b);
+      const below = support.filter((level) => level < referencePrice);
+      return targets.length ? {
+        direction: 'LONG',
+        referencePrice,
+        entry: null,
+        targets,
+        stopLoss: below.length ? Math.max(...below) : null,
+        horizonDays: defaultHorizonDays,
+      } : null;
+    }
+
+    if (structured.outlook === 'bearish') {
+      const targets = support.filter((level) => level < referencePrice).sort((a, b) => b - a);
+      const above = resistance.filter((level) => level > referencePrice);
+      return targets.length ? {
+        direction: 'SHORT',
+        referencePrice,
+        entry: null,
+        targets,
+        stopLoss: above.length ? Math.min(...above) : null,
+        horizonDays: defaultHorizonDays,
+      } : null;
+    }
+  }
+
+  return null;
+};
+
+// Walks the prices after the call; on a single point the stop is checked before the targets
+export const replayPriceCall = (call: PriceCall, calledAt: Date, history: PricePoint[], now: Date = new Date()): CallReplay => {
+  const horizonEndsAt = new Date(calledAt.getTime() + call.horizonDays * DAY_MS);
+  const end = Math.min(horizonEndsAt.getTime(), now.getTime());
+  const long = call.direction === 'LONG';
+
+  const reached = (price: number, level: number) => (long ? price >= level : price <= level);
+  const stopped = (price: number) => call.stopLoss !== null && (long ? price <= call.stopLoss : price >= call.stopLoss);
+
+  const targets: TargetResult[] = call.targets.map((price) => ({ price, hitAt: null, hoursToHit: null }));
+  let entryHitAt: Date | null = null;
+  let stopHitAt: Date | null = null;
+  let firstTargetAt: number | null = null;
+
+  const points = history
+    .filter((point) => point.timestamp > calledAt.getTime() && point.timestamp <= end)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const point of points) {
+    if (!entryHitAt && call.entry && point.price >= call.entry.low && point.price <= call.entry.high) {
+      entryHitAt = new Date(point.timestamp);
+    }
+
+    if (stopped(point.price)) {
+      stopHitAt = new Date(point.timestamp);
+      break;
+    }
+
+    for (const target of targets) {
+      if (!target.hitAt && reached(point.price, target.price)) {
+        target.hitAt = new Date(point.timestamp).toISOString();
+        target.hoursToHit = hoursBetween(calledAt, point.timestamp);
+        firstTargetAt = firstTargetAt ?? point.timestamp;
+      }
+    }
+
+    // Following a call past its last target tells nothing more
+    if (targets.every((target) => target.hitAt)) {
+      break;
+    }
+  }
+
+  let outcome: BacktestOutcome;
+  let hoursToOutcome: number | null = null;
+
+  if (firstTargetAt !== null) {
+    outcome = 'TARGET_HIT';
+    hoursToOutcome = hoursBetween(calledAt, firstTargetAt);
+  } else if (stopHitAt) {
+    outcome = 'STOP_HIT';
+    hoursToOutcome = hoursBetween(calledAt, stopHitAt.getTime());
+  } else {
+    outcome = now >= horizonEndsAt ? 'NEITHER' : 'OPEN';
+  }
+
+  return { outcome, entryHitAt, targets, stopHitAt, hoursToOutcome, horizonEndsAt };
+};
+
+export type OutcomeCount = {
+  analysisType: string;
+  model: string;
+  outcome: BacktestOutcome;
+  count: number;
+  avgHours: number | null;
+};
+
+export type HitRate = {
+  calls: number; // resolved calls: target, stop or horizon reached
+  targetHit: number;
+  stopHit: number;
+  neither: number;
+  open: number;
+  hitRate: number | null; // share of resolved calls whose first target came before the stop
+  stopRate: number | null;
+  avgHoursToTarget: number | null;
+  avgHoursToStop: number | null;
+};
+
+const ratio = (part: number, whole: number) => (whole ? Math.round((part / whole) * 10000) / 10000 : null);
+
+const summarize = (counts: OutcomeCount[]): HitRate => {
+  const total = (outcome: BacktestOutcome) =>
+    counts.filter((row) => row.outcome === outcome).reduce((sum, row) => sum + row.count, 0);
+
+  // Weighted by the number of calls behind each group's average
+  const averageHours = (outcome: BacktestOutcome) => {
+    const rows = counts.filter((row) => row.outcome === outcome && row.avgHours !== null);
+    const weight = rows.reduce((sum, row) => sum + row.count, 0);
+    return weight ? Math.round((rows.reduce((sum, row) => sum + row.avgHours! * row.count, 0) / weight) * 10) / 10 : null;
+  };
+
+  const targetHit = total('TARGET_HIT');
+  const stopHit = total('STOP_HIT');
+  const neither = total('NEITHER');
+  const calls = targetHit + stopHit + neither;
+
+  return {
+    calls,
+    targetHit,
+    stopHit,
+    neither,
+    open: total('OPEN'),
+    hitRate: ratio(targetHit, calls),
+    stopRate: ratio(stopHit, calls),
+    avgHoursToTarget: averageHours('TARGET_HIT'),
+    avgHoursToStop: averageHours('STOP_HIT'),
+  };
+};
+
+const groupRates = <K extends string>(counts: OutcomeCount[], keyOf: (row: OutcomeCount) => Record<K, string>) => {
+  const groups = new Map<string, { key: Record<K, string>; rows: OutcomeCount[] }>();
+
+  for (const row of counts) {
+    const key = keyOf(row);
+    const id = JSON.stringify(key);
+    groups.set(id, { key, rows: [...(groups.get(id)?.rows || []), row] });
+  }
+
+  return [...groups.values()]
+    .map(({ key, rows }) => ({ ...key, ...summarize(rows) }))
+    .sort((a, b) => b.calls - a.calls);
+};
+
+// Hit rates overall, per analysis type, per model and per type and model
+export const buildScoreboard = (counts: OutcomeCount[]) => {
+  const withCalls = counts.filter((row) => row.outcome !== 'NO_CALL');
+
+  return {
+    overall: summarize(withCalls),
+    byType: groupRates(withCalls, (row) => ({ analysisType: row.analysisType })),
+    byModel: groupRates(withCalls, (row) => ({ model: row.model })),
+    byTypeAndModel: groupRates(withCalls, (row) => ({ analysisType: row.analysisType, model: row.model })),
+  };
+};
\ No newline at end of file
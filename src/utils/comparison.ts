@@ -0,0 +1,99 @@
+import { CryptoData } from '../services/dataService.js';
+
+// Side-by-side metrics for a COMPARISON analysis, computed before the model ranks the assets
+
+export const COMPARISON_MIN_SYMBOLS = 2;
+export const COMPARISON_MAX_SYMBOLS = 5;
+
+export type ComparisonRow = {
+  symbol: string;
+  name: string;
+  rank: number | null;
+  price: number;
+  marketCap: number;
+  volume24h: number;
+  volumeToMarketCapPercent: number | null; // turnover: how actively the asset trades relative to its size
+  change24h: number;
+  change7d: number;
+  change30d: number;
+  circulatingSupply: number;
+  maxSupply: number | null;
+  circulatingPercentOfMax: number | null;
+};
+
+export type ComparisonTable = {
+  symbols: string[];
+  rows: ComparisonRow[];
+  // Which symbol leads on each metric
+  leaders: Record<string, string>;
+};
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const LEADER_METRICS: { metric: keyof ComparisonRow; highestWins: boolean }[] = [
+  { metric: 'marketCap', highestWins: true },
+  { metric: 'volume24h', highestWins: true },
+  { metric: 'volumeToMarketCapPercent', highestWins: true },
+  { metric: 'change24h', highestWins: true },
+  { metric: 'change7d', highestWins: true },
+  { metric: 'change30d', highestWins: true },
+  { metric: 'circulatingPercentOfMax', highestWins: true },
+];
+
+export const buildComparisonTable = (assets: CryptoData[]): ComparisonTable => {
+  const rows: ComparisonRow[] = assets.map((asset) => ({
+    symbol: asset.symbol.toUpperCase(),
+    name: asset.name,
+    rank: asset.rank ?? null,
+    price: asset.price,
+    marketCap: asset.marketCap,
+    volume24h: asset.volume24h,
+    volumeToMarketCapPercent: asset.marketCap ? round((asset.volume24h / asset.marketCap) * 100) : null,
+    change24h: round(asset.change24h),
+    change7d: round(asset.change7d),
+    change30d: round(asset.change30d),
+    circulatingSupply: asset.circulatingSupply,
+    maxSupply: asset.maxSupply ?? null,
+    circulatingPercentOfMax: asset.maxSupply ? round((asset.circulatingSupply / asset.maxSupply) * 100) : null,
+  }));
+
+  const leaders: Record<string, string> = {};
+  for (const { metric, highestWins } of LEADER_METRICS) {
+    const ranked = rows
+      .filter((row) => typeof row[metric] === 'number')
+      .sort((a, b) => ((b[metric] as number) - (a[metric] as number)) * (highestWins ? 1 : -1));
+    if (ranked.length > 0) {
+      leaders[metric] = ranked[0].symbol;
+    }
+  }
+
+  return { symbols: rows.map((row) => row.symbol), rows, leaders };
+};
+
+const compact = (value: number | null) =>
+  value === null ? 'n/a' : Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 }).format(value);
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`);
+
+// Metrics as rows and assets as columns, the way a reader compares them
+export const comparisonMarkdown = (table: ComparisonTable): string => {
+  const lines: [string, (row: ComparisonRow) => string][] = [
+    ['Rank', (row) => (row.rank === null ? 'n/a' : `#${row.rank}`)],
+    ['Price', (row) => `$${row.price.toLocaleString('en-US', { maximumSignificantDigits: 8 })}`],
+    ['Market cap', (row) => `$${compact(row.marketCap)}`],
+    ['24h volume', (row) => `$${compact(row.volume24h)}`],
+    ['Volume / market cap', (row) => (row.volumeToMarketCapPercent === null ? 'n/a' : `${row.volumeToMarketCapPercent}%`)],
+    ['24h change', (row) => percent(row.change24h)],
+    ['7d change', (row) => percent(row.change7d)],
+    ['30d change', (row) => percent(row.change30d)],
+    ['Circulating supply', (row) => compact(row.circulatingSupply)],
+    ['Max supply', (row) => (row.maxSupply === null ? 'uncapped' : compact(row.maxSupply))],
+    ['Circulating / max', (row) => (row.circulatingPercentOfMax === null ? 'n/a' : `${row.circulatingPercentOfMax}%`)],
+  ];
+
+  return [
+    `| Metric | ${table.symbols.join(' | ')} |`,
+    `|---|${table.symbols.map(() => '---').join('|')}|`,
+    ...lines.map(([label, format]) => `| ${label} | ${table.rows.map(format).join(' | ')} |`),
+  ].join('\n');
+};
\ No newline at end of file
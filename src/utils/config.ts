@@ -1,7 +1,11 @@
 import dotenv from 'dotenv';
+import { FACT_CHECK_POLICIES, FactCheckPolicy } from './factCheck.js';
+import { ModelPrice } from './llmCost.js';
 
 dotenv.config();
 
+const llmProvider = process.env.LLM_PROVIDER || 'template';
+
 export const config = {
   port: parseInt(process.env.PORT || '3001'),
   nodeEnv: process.env.NODE_ENV || 'development',
@@ -25,6 +29,7 @@ export const config = {
   x402: {
     apiKey: process.env.X402_API_KEY!,
     endpoint: process.env.X402_ENDPOINT || 'https://api.x402.pay',
+    webhookSecret: process.env.X402_WEBHOOK_SECRET, // payments are only completed from webhooks signed with it
   },
   
   external: {
@@ -34,6 +39,161 @@ export const config = {
   
   jwt: {
     secret: process.env.JWT_SECRET!,
+    accessTokenTtl: process.env.JWT_ACCESS_TOKEN_TTL || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+  },
+  
+  app: {
+    frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+  },
+  
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'console', // "console", "file" or "smtp"
+    from: process.env.MAIL_FROM || 'CryptoAnalyst AI <no-reply@cryptoanalyst.ai>',
+    fileDir: process.env.MAIL_FILE_DIR || 'mail',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+  
+  accountEmails: {
+    verificationTtl: '24h',
+    passwordResetTtl: '1h',
+    requireVerifiedEmailForPaidAnalysis: process.env.REQUIRE_VERIFIED_EMAIL === 'true',
+  },
+  
+  twoFactor: {
+    issuer: process.env.TOTP_ISSUER || 'CryptoAnalyst AI',
+    // 32-byte hex key for encrypting TOTP secrets at rest; derived from JWT_SECRET when unset
+    encryptionKey: process.env.TOTP_ENCRYPTION_KEY,
+    challengeTtl: '5m',
+    challengeMaxFailures: 5, // wrong codes before a challenge is void and the password must be entered again
+    recoveryCodeCount: 10,
+  },
+  
+  organizations: {
+    defaultSeatLimit: parseInt(process.env.ORGANIZATION_SEAT_LIMIT || '10'),
+    invitationTtlDays: 7,
+  },
+  
+  analysis: {
+    // Fixed market data instead of live APIs; on by default with the offline template provider
+    mockMarketData: (process.env.MOCK_MARKET_DATA || String(llmProvider === 'template')) === 'true',
+    structuredOutputAttempts: 3, // JSON replies that fail validation are re-requested with the errors
+  },
+
+  factCheck: {
+    // When a report quotes figures that contradict its input data: "annotate" appends the correct values,
+    // "regenerate" rewrites it with the mistakes pointed out (annotating if they persist), "fail" fails the attempt
+    policy: (process.env.FACT_CHECK_POLICY || 'annotate') as FactCheckPolicy,
+    maxRegenerations: 1,
+    tolerances: {
+      pricePercent: 2,
+      marketCapPercent: 5,
+      percentPoints: 1, // changes and dominance
+    },
+  },
+
+  regeneration: {
+    // Rerunning a completed analysis is free this long after its first generation, a limited number of times
+    freeWindowHours: parseInt(process.env.REGENERATION_FREE_WINDOW_HOURS || '24'),
+    maxFree: parseInt(process.env.REGENERATION_MAX_FREE || '1'),
+    priceRatio: parseFloat(process.env.REGENERATION_PRICE_RATIO || '0.5'), // share of the catalog price charged otherwise
+  },
+
+  reports: {
+    brandName: process.env.REPORT_BRAND_NAME || 'CryptoAnalyst AI',
+    brandColor: process.env.REPORT_BRAND_COLOR || '#1d4ed8',
+  },
+
+  portfolio: {
+    maxHoldings: 20,
+    rebalanceDriftPercent: parseFloat(process.env.PORTFOLIO_REBALANCE_DRIFT_PERCENT || '5'), // smaller drifts are left alone
+  },
+  
+  llm: {
+    provider: llmProvider, // "bedrock", "openai" (any compatible endpoint) or "template"
+    defaultModel: process.env.LLM_MODEL,
+    summaryModel: process.env.LLM_SUMMARY_MODEL,
+    // Per-type model overrides, e.g. LLM_MODEL_TECHNICAL_ANALYSIS=anthropic.claude-3-5-sonnet-20240620-v1:0
+    models: {
+      BASIC_OVERVIEW: process.env.LLM_MODEL_BASIC_OVERVIEW,
+      TECHNICAL_ANALYSIS: process.env.LLM_MODEL_TECHNICAL_ANALYSIS,
+      FUNDAMENTAL_ANALYSIS: process.env.LLM_MODEL_FUNDAMENTAL_ANALYSIS,
+      PORTFOLIO_REVIEW: process.env.LLM_MODEL_PORTFOLIO_REVIEW,
+      MARKET_SENTIMENT: process.env.LLM_MODEL_MARKET_SENTIMENT,
+      DEFI_OPPORTUNITIES: process.env.LLM_MODEL_DEFI_OPPORTUNITIES,
+      COMPARISON: process.env.LLM_MODEL_COMPARISON,
+    },
+    openai: {
+      baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.OPENAI_API_KEY,
+      timeoutMs: 120000,
+    },
+    // USD per million input/output tokens. A model is priced by the longest entry its id contains,
+    // so "anthropic.claude-3-5-sonnet" also covers "us.anthropic.claude-3-5-sonnet-20240620-v1:0"
+    prices: {
+      'amazon.nova-micro': { input: 0.035, output: 0.14 },
+      'amazon.nova-lite': { input: 0.06, output: 0.24 },
+      'amazon.nova-pro': { input: 0.8, output: 3.2 },
+      'anthropic.claude-3-haiku': { input: 0.25, output: 1.25 },
+      'anthropic.claude-3-5-haiku': { input: 0.8, output: 4 },
+      'anthropic.claude-3-5-sonnet': { input: 3, output: 15 },
+      'anthropic.claude-3-7-sonnet': { input: 3, output: 15 },
+      'meta.llama3-1-8b': { input: 0.22, output: 0.22 },
+      'meta.llama3-1-70b': { input: 0.72, output: 0.72 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      template: { input: 0, output: 0 },
+    } as Record<string, ModelPrice>,
+  },
+  
+  jobs: {
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+    pollIntervalMs: 1000,
+    maxAttempts: 5,
+    backoffBaseSeconds: 10, // doubled after every failed attempt
+    backoffMaxSeconds: 600,
+    lockTimeoutMinutes: 10, // running jobs older than this are assumed crashed
+  },
+  
+  schedules: {
+    pollIntervalMs: 60000, // how often due schedules are looked for; cadences have minute resolution
+    minIntervalMinutes: parseInt(process.env.SCHEDULE_MIN_INTERVAL_MINUTES || '60'),
+    maxPerUser: 20,
+  },
+  
+  credits: {
+    minTopUp: 10,
+    maxTopUp: 1000,
+  },
+  
+  backtests: {
+    sweepIntervalMinutes: parseInt(process.env.BACKTEST_SWEEP_INTERVAL_MINUTES || '60'),
+    defaultHorizonDays: 28, // for calls without a timeframe; overviews cover the next 1-4 weeks
+    lookbackDays: 90, // the longest window the history API still returns hourly
+    batchSize: 50,
+  },
+  
+  loginThrottle: {
+    freeAttempts: 3, // failures before delays start
+    maxDelaySeconds: 60,
+    accountLockThreshold: 10,
+    ipLockThreshold: 50,
+    lockMinutes: 15,
+    windowMinutes: 60, // failures older than this are forgotten
+  },
+  
+  siwe: {
+    domain: process.env.SIWE_DOMAIN || new URL(process.env.FRONTEND_URL || 'http://localhost:3000').host,
+    chainIds: (process.env.SIWE_CHAIN_IDS || '1,8453').split(',').map((id) => parseInt(id.trim())),
+    nonceTtlMinutes: parseInt(process.env.SIWE_NONCE_TTL_MINUTES || '10'),
+    clockSkewSeconds: 60,
   },
   
   pricing: {
@@ -43,6 +203,7 @@ export const config = {
     portfolioReview: 45,
     marketSentiment: 20,
     defiOpportunities: 50,
+    comparison: 30,
   },
   
   distribution: {
@@ -52,6 +213,12 @@ export const config = {
   },
 };
 
+// Catalog price of an analysis type; prices are keyed in camelCase, e.g. TECHNICAL_ANALYSIS -> technicalAnalysis
+export const analysisPrice = (analysisType: string): number | undefined => {
+  const key = String(analysisType).toLowerCase().replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
+  return config.pricing[key as keyof typeof config.pricing];
+};
+
 // Validate required environment variables
 const requiredEnvVars = [
   'DATABASE_URL',
@@ -67,4 +234,14 @@ for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
     throw new Error(`Missing required environment variable: ${envVar}`);
   }
+}
+
+// Canned reports built on fixed prices must never be sold, so a deploy missing LLM_PROVIDER fails loudly
+if (config.nodeEnv === 'production' && (config.llm.provider === 'template' || config.analysis.mockMarketData)) {
+  throw new Error('The template LLM provider and mock market data are for development only; set LLM_PROVIDER and MOCK_MARKET_DATA');
+}
+
+// A mistyped policy would otherwise quietly behave as the default
+if (!FACT_CHECK_POLICIES.includes(config.factCheck.policy)) {
+  throw new Error(`FACT_CHECK_POLICY must be one of ${FACT_CHECK_POLICIES.join(', ')}, got "${config.factCheck.policy}"`);
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+// Minimal five-field cron ("minute hour day-of-month month day-of-week"), evaluated in UTC.
+// Fields accept *, numbers, ranges (1-5), lists (1,3,5) and steps (*/15, 0-30/10); a few @ shortcuts are supported.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, a day matching either one runs
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+// Searching further than this means the expression can never match (e.g. February 30th)
+const MAX_SEARCH_YEARS = 5;
+
+const parseField = (field: string, { name, min, max }: typeof FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${name} field: ${field}`);
+    }
+
+    const start = match[1] === '*' ? min : parseInt(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3]) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field: ${field}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const parseCron = (expression: string): CronSchedule => {
+  const normalized = SHORTCUTS[expression.trim()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error('Cadence must have five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+};
+
+const dayMatches = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+// First matching minute strictly after `after`; skips whole months, days and hours that cannot match
+export const nextCronRun = (expression: string | CronSchedule, after: Date = new Date()): Date => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cadence never runs: ${typeof expression === 'string' ? expression : 'schedule'}`);
+};
+
+// Shortest gap between the next few runs, used to keep schedules from running too often
+export const shortestCronInterval = (expression: string, samples: number = 10): number => {
+  const schedule = parseCron(expression);
+  let previous = nextCronRun(schedule);
+  let shortest = Infinity;
+
+  for (let index = 1; index < samples; index++) {
+    const next = nextCronRun(schedule, previous);
+    shortest = Math.min(shortest, next.getTime() - previous.getTime());
+    previous = next;
+  }
+
+  return shortest;
+};
\ No newline at end of file
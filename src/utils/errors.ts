@@ -0,0 +1,10 @@
+// Error carrying an HTTP status, understood by both error handlers
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
\ No newline at end of file
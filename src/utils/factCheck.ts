@@ -0,0 +1,386 @@
+import { KNOWN_ASSETS } from './assets.js';
+import { ComparisonTable } from './comparison.js';
+import { PortfolioMetrics } from './portfolioMetrics.js';
+
+// Numeric claims in a generated report (prices, market caps, ranks, percentage changes and dominance)
+// compared with the data the report was written from. Claims are attributed to an asset by the sentence
+// naming it; in single-asset reports a sentence naming no asset is about the analyzed one.
+
+export const FACT_CHECK_POLICIES = ['annotate', 'regenerate', 'fail'] as const;
+
+export type FactCheckPolicy = typeof FACT_CHECK_POLICIES[number];
+
+export type ClaimField =
+  | 'price'
+  | 'marketCap'
+  | 'rank'
+  | 'change24h'
+  | 'change7d'
+  | 'change30d'
+  | 'totalMarketCap'
+  | 'btcDominance'
+  | 'ethDominance';
+
+export type Discrepancy = {
+  field: ClaimField;
+  symbol: string | null; // null for market-wide figures
+  claimed: number;
+  actual: number;
+  difference: number; // claimed - actual
+  excerpt: string;
+};
+
+export type FactCheck = {
+  checkedClaims: number;
+  discrepancies: Discrepancy[];
+  // high: every checked figure matched; low: at least one did not; unverified: nothing checkable was quoted
+  confidence: 'high' | 'low' | 'unverified';
+  checkedAt: string;
+};
+
+export type FactCheckTolerances = {
+  pricePercent: number; // relative, for prices and market caps
+  marketCapPercent: number;
+  percentPoints: number; // absolute, for changes and dominance
+};
+
+export type FactCheckInputs = {
+  cryptoData: any;
+  marketData: any;
+  comparison?: ComparisonTable | null;
+  portfolio?: PortfolioMetrics | null;
+};
+
+type Subject = {
+  symbol: string;
+  name?: string;
+  price?: number;
+  marketCap?: number;
+  rank?: number | null;
+  change24h?: number;
+  change7d?: number;
+  change30d?: number;
+};
+
+type Claim = { field: ClaimField; symbol: string | null; claimed: number; excerpt: string; unsigned?: boolean };
+
+// Reports about one asset; elsewhere (portfolios, comparisons, DeFi) a sentence must name the asset it is about
+const SINGLE_ASSET_TYPES = ['BASIC_OVERVIEW', 'TECHNICAL_ANALYSIS', 'FUNDAMENTAL_ANALYSIS', 'MARKET_SENTIMENT'];
+
+const NUMBER = String.raw`(\d[\d,]*(?:\.\d+)?)`;
+const MAGNITUDE = String.raw`(trillion|billion|million|thousand|[TBMK])?\b`;
+const MAGNITUDES: Record<string, number> = { t: 1e12, trillion: 1e12, b: 1e9, billion: 1e9, m: 1e6, million: 1e6, k: 1e3, thousand: 1e3 };
+
+const PRICE_PATTERN = new RegExp(
+  String.raw`(?:current(?:ly)?\s+(?:trading\s+)?(?:price|at)|trad(?:es|ing)\s+(?:at|around|near)|priced\s+at|spot\s+price|price\s+(?:is|of|stands\s+at))` +
+  String.raw`[\s:*|]*(?:(?:approximately|about|around|roughly|near|of|at|is)\s+|~\s*)*\$\s?${NUMBER}\s*${MAGNITUDE}`,
+  'gi'
+);
+const TOTAL_MARKET = String.raw`(?:total|global|overall|crypto(?:currency)?)\s+(?:crypto(?:currency)?\s+)?`;
+const MARKET_CAP_PATTERNS = [
+  new RegExp(String.raw`(${TOTAL_MARKET})?market\s*cap(?:italization)?[\s:*|]*(?:(?:of|is|at|around|approximately|about|roughly|near|stands\s+at)\s+|~\s*)*\$\s?${NUMBER}\s*${MAGNITUDE}`, 'gi'),
+  new RegExp(String.raw`\$\s?${NUMBER}\s*${MAGNITUDE}\s+(?:in\s+)?(${TOTAL_MARKET})?market\s*cap`, 'gi'),
+];
+const RANK_PATTERNS = [
+  /\brank(?:ed|s)?[\s:*|]*(?:#|no\.?\s*|number\s+)(\d{1,4})\b/gi,
+  /\brank(?:ed|s)?[\s:*|]+(\d{1,4})\b(?!\s*[-%])/gi,
+  /#(\d{1,4})\s+(?:by\s+market\s+cap|cryptocurrency|crypto\s+asset|largest)/gi,
+];
+const DOMINANCE_PATTERN = /\b(BTC|Bitcoin|ETH|Ethereum)(?:'s)?\s+(?:market\s+)?dominance[^%\d]{0,25}(\d+(?:\.\d+)?)\s*%/gi;
+const PERCENT_PATTERN = /([+\-−]?)(\d+(?:\.\d+)?)\s*%/g;
+
+const WINDOWS: { field: ClaimField; pattern: RegExp }[] = [
+  { field: 'change24h', pattern: /\b(?:24\s*-?\s*h(?:ours?|r)?|one[-\s]day|1d|daily|past\s+day|today)\b/gi },
+  { field: 'change7d', pattern: /\b(?:7\s*-?\s*d(?:ays?)?|seven[-\s]days?|one[-\s]week|1w|weekly|past\s+week|last\s+week)\b/gi },
+  { field: 'change30d', pattern: /\b(?:30\s*-?\s*d(?:ays?)?|thirty[-\s]days?|one[-\s]month|1m|monthly|past\s+month|last\s+month)\b/gi },
+];
+
+// Percentages near these words are forecasts, allocations or yields rather than quoted changes
+const NOT_A_CHANGE = /\b(?:upside|downside|target|potential|could|would|might|expect\w*|forecast\w*|project\w*|next|coming|within|apy|apr|yield|allocat\w*|weight\w*|stop|retracement|fibonacci|probability|chance|dominance|score|drawdown|volatility)\b/i;
+// Conditions and levels: the price named is not the one quoted as current
+const HYPOTHETICAL = /\b(?:if|would|could|should|might|target\w*|support|resistance|stop|break\w*|reclaim\w*|toward\w*|reach\w*|entry)\b/i;
+const DIRECTION = /\b(?:(down|declin\w*|fell|fall\w*|drop\w*|lost|loss\w*|decreas\w*|lower|slid\w*|shed|negative)|(up|gain\w*|rose|ris\w*|increas\w*|climb\w*|higher|rall\w*|jump\w*|surg\w*|advanc\w*|positive))\b/gi;
+
+// A window named this close after a percentage is the one it refers to
+const WINDOW_AFTER_CHARS = 25;
+
+const round = (value: number, digits: number = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const parseAmount = (digits: string, magnitude?: string) =>
+  Number(digits.replace(/,/g, '')) * (magnitude ? MAGNITUDES[magnitude.toLowerCase()] : 1);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Bullets and table rows are sentences of their own
+const sentences = (text: string) =>
+  text.split(/\n+|(?<=[.!?])\s+(?=[A-Z*#|\-])/).map((sentence) => sentence.trim()).filter(Boolean);
+
+const excerptOf = (sentence: string) => (sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence);
+
+// Every asset the input data has figures for, keyed by symbol
+const subjectsOf = (inputs: FactCheckInputs): Map<string, Subject> => {
+  const subjects = new Map<string, Subject>();
+  const add = (subject: Subject) => {
+    const symbol = subject.symbol.toUpperCase();
+    subjects.set(symbol, { ...subject, ...subjects.get(symbol), symbol });
+  };
+
+  if (inputs.cryptoData?.symbol) {
+    add(inputs.cryptoData);
+  }
+  for (const row of inputs.comparison?.rows || []) {
+    add(row);
+  }
+  for (const position of inputs.portfolio?.positions || []) {
+    add({ symbol: position.asset, price: position.price });
+  }
+  return subjects;
+};
+
+// Assets a sentence names, by ticker or name; longer names first so "Bitcoin Cash" is not read as Bitcoin
+const mentionedAssets = (sentence: string, subjects: Map<string, Subject>): Set<string> => {
+  const names = new Map<string, string>();
+  for (const [symbol, asset] of Object.entries(KNOWN_ASSETS)) {
+    names.set(asset.name, symbol);
+  }
+  for (const subject of subjects.values()) {
+    if (subject.name) {
+      names.set(subject.name, subject.symbol);
+    }
+  }
+
+  const mentioned = new Set<string>();
+  let rest = sentence;
+
+  // Case-sensitive, so "optimism" or "stellar" in prose are not read as assets
+  for (const name of [...names.keys()].sort((a, b) => b.length - a.length)) {
+    const pattern = new RegExp(String.raw`\b${escapeRegExp(name)}\b`, 'g');
+    if (pattern.test(rest)) {
+      mentioned.add(names.get(name)!);
+      rest = rest.replace(pattern, ' ');
+    }
+  }
+
+  for (const symbol of new Set([...Object.keys(KNOWN_ASSETS), ...subjects.keys()])) {
+    if (new RegExp(String.raw`(?:^|[^A-Za-z0-9$])\$?${escapeRegExp(symbol)}(?![A-Za-z0-9])`).test(rest)) {
+      mentioned.add(symbol);
+    }
+  }
+  return mentioned;
+};
+
+// Sign of the last movement word in the text: -1 falling, 1 rising, 0 none
+const directionOf = (text: string): number => {
+  const last = [...text.matchAll(DIRECTION)].pop();
+  return last ? (last[1] ? -1 : 1) : 0;
+};
+
+const percentClaims = (sentence: string, symbol: string, excerpt: string): Claim[] => {
+  const claims: Claim[] = [];
+
+  for (const match of sentence.matchAll(PERCENT_PATTERN)) {
+    const index = match.index!;
+    const before = sentence.slice(Math.max(0, index - 60), index);
+    const after = sentence.slice(index + match[0].length, index + match[0].length + 40);
+
+    // Only the clause the percentage sits in; another percentage in between belongs to another claim
+    const clauseBefore = before.split(/[;%]|,\s(?=and\b|while\b|but\b)/).pop() || '';
+    const clauseAfter = after.split(/[;,%.]/)[0] || '';
+    const clause = `${clauseBefore} ${clauseAfter}`;
+
+    if (NOT_A_CHANGE.test(clause)) {
+      continue;
+    }
+
+    // "2.4% over 24 hours" reads the window right after the figure; "over 24 hours it rose 2.4%" the one before
+    const nearest = (text: string, distanceOf: (index: number, found: string) => number) => WINDOWS
+      .flatMap(({ field, pattern }) => [...text.matchAll(pattern)].map((found) => ({ field, distance: distanceOf(found.index!, found[0]) })))
+      .sort((a, b) => a.distance - b.distance)[0];
+    const following = nearest(clauseAfter, (at) => at);
+    const preceding = nearest(clauseBefore, (at, found) => clauseBefore.length - at - found.length);
+    const window = following && (following.distance <= WINDOW_AFTER_CHARS || !preceding) ? following : preceding;
+
+    if (!window) {
+      continue;
+    }
+
+    const sign = match[1] ? (match[1] === '+' ? 1 : -1) : directionOf(clauseBefore);
+
+    claims.push({
+      field: window.field,
+      symbol,
+      claimed: (sign || 1) * Number(match[2]),
+      excerpt,
+      unsigned: sign === 0,
+    });
+  }
+  return claims;
+};
+
+export const extractClaims = (analysisType: string, report: string, inputs: FactCheckInputs): Claim[] => {
+  const subjects = subjectsOf(inputs);
+  const primary = inputs.cryptoData?.symbol ? String(inputs.cryptoData.symbol).toUpperCase() : null;
+  const claims: Claim[] = [];
+
+  for (const sentence of sentences(report)) {
+    const excerpt = excerptOf(sentence);
+    const mentioned = mentionedAssets(sentence, subjects);
+
+    // Market-wide figures need no asset
+    for (const match of sentence.matchAll(DOMINANCE_PATTERN)) {
+      const field = /^(BTC|Bitcoin)$/i.test(match[1]) ? 'btcDominance' : 'ethDominance';
+      claims.push({ field, symbol: null, claimed: Number(match[2]), excerpt });
+    }
+
+    let symbol: string | null = null;
+    if (mentioned.size === 1) {
+      symbol = [...mentioned][0];
+    } else if (mentioned.size === 0 && primary && SINGLE_ASSET_TYPES.includes(analysisType)) {
+      symbol = primary;
+    }
+
+    MARKET_CAP_PATTERNS.forEach((pattern, index) => {
+      for (const match of sentence.matchAll(pattern)) {
+        const [total, digits, magnitude] = index === 0 ? [match[1], match[2], match[3]] : [match[3], match[1], match[2]];
+        if (total) {
+          claims.push({ field: 'totalMarketCap', symbol: null, claimed: parseAmount(digits, magnitude), excerpt });
+        } else if (symbol) {
+          claims.push({ field: 'marketCap', symbol, claimed: parseAmount(digits, magnitude), excerpt });
+        }
+      }
+    });
+
+    // Claims about an asset the data has no figures for, or about several at once, cannot be checked
+    if (!symbol || !subjects.has(symbol)) {
+      continue;
+    }
+
+    for (const match of sentence.matchAll(PRICE_PATTERN)) {
+      if (HYPOTHETICAL.test(sentence.slice(Math.max(0, match.index! - 40), match.index! + match[0].length))) {
+        continue;
+      }
+      claims.push({ field: 'price', symbol, claimed: parseAmount(match[1], match[2]), excerpt });
+    }
+
+    for (const pattern of RANK_PATTERNS) {
+      for (const match of sentence.matchAll(pattern)) {
+        claims.push({ field: 'rank', symbol, claimed: Number(match[1]), excerpt });
+      }
+    }
+
+    claims.push(...percentClaims(sentence, symbol, excerpt));
+  }
+
+  // The same figure can be matched by more than one pattern
+  const seen = new Set<string>();
+  return claims.filter((claim) => {
+    const key = `${claim.field}|${claim.symbol}|${claim.claimed}|${claim.excerpt}`;
+    return seen.has(key) ? false : (seen.add(key), true);
+  });
+};
+
+const actualValue = (claim: Claim, subjects: Map<string, Subject>, marketData: any): number | null => {
+  const value = claim.symbol ? (subjects.get(claim.symbol) as any)?.[claim.field] : marketData?.[claim.field];
+  return typeof value === 'number' && isFinite(value) ? value : null;
+};
+
+const withinTolerance = (claim: Claim, actual: number, tolerances: FactCheckTolerances): boolean => {
+  switch (claim.field) {
+    case 'price':
+      return Math.abs(claim.claimed - actual) <= Math.abs(actual) * tolerances.pricePercent / 100;
+    case 'marketCap':
+    case 'totalMarketCap':
+      return Math.abs(claim.claimed - actual) <= Math.abs(actual) * tolerances.marketCapPercent / 100;
+    case 'rank':
+      return claim.claimed === actual;
+    default: {
+      // "moved 2.4% over 24 hours" does not say which way
+      const claimed = claim.unsigned ? Math.sign(actual || 1) * Math.abs(claim.claimed) : claim.claimed;
+      return Math.abs(claimed - actual) <= tolerances.percentPoints;
+    }
+  }
+};
+
+export const checkReportFacts = (
+  analysisType: string,
+  report: string,
+  inputs: FactCheckInputs,
+  tolerances: FactCheckTolerances
+): FactCheck => {
+  const subjects = subjectsOf(inputs);
+  let checkedClaims = 0;
+  const discrepancies: Discrepancy[] = [];
+
+  for (const claim of extractClaims(analysisType, report, inputs)) {
+    const actual = actualValue(claim, subjects, inputs.marketData);
+    if (actual === null) {
+      continue;
+    }
+
+    checkedClaims++;
+    if (!withinTolerance(claim, actual, tolerances)) {
+      discrepancies.push({
+        field: claim.field,
+        symbol: claim.symbol,
+        claimed: claim.claimed,
+        actual,
+        difference: round(claim.claimed - actual),
+        excerpt: claim.excerpt,
+      });
+    }
+  }
+
+  return {
+    checkedClaims,
+    discrepancies,
+    confidence: discrepancies.length ? 'low' : checkedClaims ? 'high' : 'unverified',
+    checkedAt: new Date().toISOString(),
+  };
+};
+
+const FIELD_LABELS: Record<ClaimField, string> = {
+  price: 'price',
+  marketCap: 'market cap',
+  rank: 'market cap rank',
+  change24h: '24h change',
+  change7d: '7d change',
+  change30d: '30d change',
+  totalMarketCap: 'total crypto market cap',
+  btcDominance: 'BTC dominance',
+  ethDominance: 'ETH dominance',
+};
+
+const formatFigure = (field: ClaimField, value: number): string => {
+  switch (field) {
+    case 'price':
+      return `$${value.toLocaleString('en-US', { maximumFractionDigits: Math.abs(value) >= 1 ? 2 : 6 })}`;
+    case 'marketCap':
+    case 'totalMarketCap':
+      return `$${value.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+    case 'rank':
+      return `#${value}`;
+    default:
+      return `${value}%`;
+  }
+};
+
+const describe = (discrepancy: Discrepancy) =>
+  `${discrepancy.symbol ? `${discrepancy.symbol} ` : ''}${FIELD_LABELS[discrepancy.field]}: the report says ` +
+  `${formatFigure(discrepancy.field, discrepancy.claimed)}, the data says ${formatFigure(discrepancy.field, discrepancy.actual)}`;
+
+// Appended to the prompt when the report is rewritten
+export const factCheckCorrection = (discrepancies: Discrepancy[]): string => `
+Your previous draft quoted figures that contradict the data above:
+${discrepancies.map((discrepancy) => `- ${describe(discrepancy)} ("${discrepancy.excerpt}")`).join('\n')}
+
+Write the report again and quote every figure exactly as it appears in the data.
+`;
+
+// Appended to a report published despite discrepancies
+export const annotateReport = (report: string, discrepancies: Discrepancy[]): string => `${report.trimEnd()}
+
+---
+
+**Data check:** some figures in this report differ from the market data it was generated from. The data values are:
+${discrepancies.map((discrepancy) => `- ${describe(discrepancy)}`).join('\n')}
+`;
\ No newline at end of file
@@ -0,0 +1,270 @@
+// Technical indicators computed from price history, so reports quote real values instead of estimates.
+// Series functions return arrays aligned with their input, with null until enough data has accumulated.
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+  date: string;
+}
+
+export interface Candle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Type aliases rather than interfaces so snapshots can be stored in Prisma Json columns as they are
+export type IndicatorSnapshot = {
+  asOf: string;
+  candles: number;
+  price: number;
+  sma: { sma20: number | null; sma50: number | null };
+  ema: { ema12: number | null; ema26: number | null };
+  rsi14: number | null;
+  macd: { macd: number | null; signal: number | null; histogram: number | null };
+  bollinger: { upper: number | null; middle: number | null; lower: number | null };
+  atr14: number | null;
+  fibonacci: { trend: 'up' | 'down'; high: number; low: number; levels: Record<string, number> };
+  pivots: PivotPoints | null;
+};
+
+export type PivotPoints = {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+};
+
+type Series = (number | null)[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+// Eight significant digits keeps stored values readable for both BTC and sub-cent tokens
+const tidy = (value: number | null | undefined): number | null =>
+  value === null || value === undefined || !isFinite(value) ? null : Number(value.toPrecision(8));
+
+const last = (series: Series): number | null => (series.length ? series[series.length - 1] : null);
+
+// Buckets raw price points into OHLC candles; the last candle may still be forming
+export const toCandles = (points: PricePoint[], intervalMs: number = DAY_MS): Candle[] => {
+  const candles: Candle[] = [];
+
+  for (const point of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+    const bucket = Math.floor(point.timestamp / intervalMs) * intervalMs;
+    const current = candles[candles.length - 1];
+
+    if (current && current.timestamp === bucket) {
+      current.high = Math.max(current.high, point.price);
+      current.low = Math.min(current.low, point.price);
+      current.close = point.price;
+    } else {
+      candles.push({ timestamp: bucket, open: point.price, high: point.price, low: point.price, close: point.price });
+    }
+  }
+
+  return candles;
+};
+
+export const sma = (values: number[], period: number): Series =>
+  values.map((_, index) => {
+    if (index < period - 1) {
+      return null;
+    }
+    const window = values.slice(index - period + 1, index + 1);
+    return window.reduce((sum, value) => sum + value, 0) / period;
+  });
+
+// Seeded with the simple average of the first period
+export const ema = (values: number[], period: number): Series => {
+  const result: Series = values.map(() => null);
+  if (values.length < period) {
+    return result;
+  }
+
+  const k = 2 / (period + 1);
+  let previous = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = previous;
+
+  for (let index = period; index < values.length; index++) {
+    previous = values[index] * k + previous * (1 - k);
+    result[index] = previous;
+  }
+
+  return result;
+};
+
+// Wilder's smoothing of average gains and losses
+export const rsi = (closes: number[], period: number = 14): Series => {
+  const result: Series = closes.map(() => null);
+  if (closes.length <= period) {
+    return result;
+  }
+
+  let averageGain = 0;
+  let averageLoss = 0;
+  for (let index = 1; index <= period; index++) {
+    const change = closes[index] - closes[index - 1];
+    averageGain += Math.max(change, 0) / period;
+    averageLoss += Math.max(-change, 0) / period;
+  }
+
+  const toRsi = () => (averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss));
+  result[period] = toRsi();
+
+  for (let index = period + 1; index < closes.length; index++) {
+    const change = closes[index] - closes[index - 1];
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[index] = toRsi();
+  }
+
+  return result;
+};
+
+export const macd = (closes: number[], fast: number = 12, slow: number = 26, signalPeriod: number = 9) => {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line: Series = closes.map((_, index) =>
+    fastEma[index] !== null && slowEma[index] !== null ? fastEma[index]! - slowEma[index]! : null
+  );
+
+  // The signal line only starts once the MACD line has values
+  const start = line.findIndex((value) => value !== null);
+  const signal: Series = closes.map(() => null);
+  if (start !== -1) {
+    ema(line.slice(start) as number[], signalPeriod).forEach((value, offset) => {
+      signal[start + offset] = value;
+    });
+  }
+
+  const histogram: Series = line.map((value, index) =>
+    value !== null && signal[index] !== null ? value - signal[index]! : null
+  );
+
+  return { macd: line, signal, histogram };
+};
+
+export const bollingerBands = (closes: number[], period: number = 20, multiplier: number = 2) => {
+  const middle = sma(closes, period);
+  const deviation = closes.map((_, index) => {
+    if (middle[index] === null) {
+      return null;
+    }
+    const window = closes.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, value) => sum + (value - middle[index]!) ** 2, 0) / period;
+    return Math.sqrt(variance);
+  });
+
+  return {
+    middle,
+    upper: middle.map((value, index) => (value === null ? null : value + multiplier * deviation[index]!)),
+    lower: middle.map((value, index) => (value === null ? null : value - multiplier * deviation[index]!)),
+  };
+};
+
+// Average true range with Wilder's smoothing
+export const atr = (candles: Candle[], period: number = 14): Series => {
+  const result: Series = candles.map(() => null);
+  if (candles.length <= period) {
+    return result;
+  }
+
+  const trueRanges = candles.map((candle, index) => {
+    if (index === 0) {
+      return candle.high - candle.low;
+    }
+    const previousClose = candles[index - 1].close;
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  });
+
+  let average = trueRanges.slice(1, period + 1).reduce((sum, value) => sum + value, 0) / period;
+  result[period] = average;
+
+  for (let index = period + 1; index < candles.length; index++) {
+    average = (average * (period - 1) + trueRanges[index]) / period;
+    result[index] = average;
+  }
+
+  return result;
+};
+
+// Retracement levels of the swing between the window's high and low, measured back from the latest extreme
+export const fibonacciRetracements = (candles: Candle[]) => {
+  let highIndex = 0;
+  let lowIndex = 0;
+  candles.forEach((candle, index) => {
+    if (candle.high > candles[highIndex].high) {
+      highIndex = index;
+    }
+    if (candle.low < candles[lowIndex].low) {
+      lowIndex = index;
+    }
+  });
+
+  const high = candles[highIndex].high;
+  const low = candles[lowIndex].low;
+  const trend: 'up' | 'down' = highIndex >= lowIndex ? 'up' : 'down';
+
+  const levels: Record<string, number> = {};
+  for (const ratio of FIBONACCI_RATIOS) {
+    const level = trend === 'up' ? high - (high - low) * ratio : low + (high - low) * ratio;
+    // Keyed "23.6%" etc.; numeric-looking keys would lose their order in JSON
+    levels[`${(ratio * 100).toFixed(1)}%`] = tidy(level)!;
+  }
+
+  return { trend, high: tidy(high)!, low: tidy(low)!, levels };
+};
+
+// Classic floor pivots from one completed candle
+export const pivotPoints = (candle: Candle): PivotPoints => {
+  const pivot = (candle.high + candle.low + candle.close) / 3;
+  const range = candle.high - candle.low;
+
+  return {
+    pivot: tidy(pivot)!,
+    r1: tidy(2 * pivot - candle.low)!,
+    r2: tidy(pivot + range)!,
+    r3: tidy(candle.high + 2 * (pivot - candle.low))!,
+    s1: tidy(2 * pivot - candle.high)!,
+    s2: tidy(pivot - range)!,
+    s3: tidy(candle.low - 2 * (candle.high - pivot))!,
+  };
+};
+
+// Latest value of every indicator; expects daily candles, oldest first
+export const computeIndicators = (candles: Candle[]): IndicatorSnapshot => {
+  if (candles.length === 0) {
+    throw new Error('No candles to compute indicators from');
+  }
+
+  const closes = candles.map((candle) => candle.close);
+  const macdSeries = macd(closes);
+  const bands = bollingerBands(closes);
+  // Pivots for the current day come from the previous, completed one
+  const previous = candles.length > 1 ? candles[candles.length - 2] : null;
+
+  return {
+    asOf: new Date(candles[candles.length - 1].timestamp).toISOString(),
+    candles: candles.length,
+    price: tidy(closes[closes.length - 1])!,
+    sma: { sma20: tidy(last(sma(closes, 20))), sma50: tidy(last(sma(closes, 50))) },
+    ema: { ema12: tidy(last(ema(closes, 12))), ema26: tidy(last(ema(closes, 26))) },
+    rsi14: tidy(last(rsi(closes, 14))),
+    macd: {
+      macd: tidy(last(macdSeries.macd)),
+      signal: tidy(last(macdSeries.signal)),
+      histogram: tidy(last(macdSeries.histogram)),
+    },
+    bollinger: { upper: tidy(last(bands.upper)), middle: tidy(last(bands.middle)), lower: tidy(last(bands.lower)) },
+    atr14: tidy(last(atr(candles, 14))),
+    fibonacci: fibonacciRetracements(candles),
+    pivots: previous && pivotPoints(previous),
+  };
+};
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { LlmUsage } from '../services/llm/types.js';
+
+// What model calls cost, and what a generation earns once they are paid for
+
+export type ModelPrice = {
+  input: number; // USD per million tokens
+  output: number;
+};
+
+export type Margin = {
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginRate: number | null; // share of revenue kept; null without revenue
+};
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Longest matching entry first, so "gpt-4o-mini" is not priced as "gpt-4o"
+export const modelPriceFor = (model: string, prices: Record<string, ModelPrice>): ModelPrice | null => {
+  const key = Object.keys(prices)
+    .filter((candidate) => model.includes(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? prices[key] : null;
+};
+
+// Null when the model is not in the price table or the provider did not report usage
+export const llmCallCost = (model: string, usage: LlmUsage | undefined, prices: Record<string, ModelPrice>): number | null => {
+  const price = modelPriceFor(model, prices);
+
+  if (!price || !usage) {
+    return null;
+  }
+
+  return round((usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000, 6);
+};
+
+export const marginOf = (revenue: number, cost: number): Margin => ({
+  revenue: round(revenue, 2),
+  cost: round(cost, 4),
+  margin: round(revenue - cost, 4),
+  marginRate: revenue ? round((revenue - cost) / revenue, 4) : null,
+});
\ No newline at end of file
@@ -1,40 +1,75 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { config } from '../utils/config.js';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, UserRole } from '@prisma/client';
+import { HttpError } from '../errors.js';
+import { SessionService } from '../../services/sessionService.js';
+import { ApiKeyService, ApiKeyScope, isApiKey } from '../../services/apiKeyService.js';
 
 const prisma = new PrismaClient();
+const sessionService = new SessionService();
+const apiKeyService = new ApiKeyService();
 
 interface AuthRequest extends Request {
   user?: any;
+  sessionId?: string;
+  apiKey?: { id: string; scopes: string[] };
 }
 
+// Bearer JWT, or an API key in either X-API-Key or the Bearer slot
+export const getCredential = (req: Request): string | undefined => {
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return apiKeyHeader;
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7);
+  }
+
+  return undefined;
+};
+
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const authHeader = req.headers.authorization;
+    const token = getCredential(req);
     
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return res.status(401).json({ error: 'Authentication token required' });
     }
 
-    const token = authHeader.substring(7);
-    
     try {
-      const decoded = jwt.verify(token, config.jwt.secret) as any;
+      let userId: string;
+
+      if (isApiKey(token)) {
+        const verified = await apiKeyService.verifyKey(token);
+        userId = verified.userId;
+        req.apiKey = { id: verified.apiKeyId, scopes: verified.scopes };
+      } else {
+        const verified = await sessionService.verifyAccessToken(token);
+        userId = verified.userId;
+        req.sessionId = verified.sessionId;
+      }
       
       const user = await prisma.user.findUnique({
-        where: { id: decoded.userId },
-        select: { id: true, email: true, walletId: true },
+        where: { id: userId },
+        select: { id: true, email: true, emailVerifiedAt: true, walletId: true, role: true, disabledAt: true },
       });
 
       if (!user) {
         return res.status(401).json({ error: 'User not found' });
       }
 
+      if (user.disabledAt) {
+        return res.status(403).json({ error: 'Account disabled' });
+      }
+
       req.user = user;
       next();
-    } catch (jwtError) {
-      return res.status(401).json({ error: 'Invalid or expired token' });
+    } catch (authError) {
+      if (authError instanceof HttpError) {
+        return res.status(authError.status).json({ error: authError.message });
+      }
+      throw authError;
     }
   } catch (error) {
     return res.status(500).json({ error: 'Authentication error' });
@@ -42,11 +77,39 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
 };
 
 export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  const authHeader = req.headers.authorization;
-  
-  if (authHeader && authHeader.startsWith('Bearer ')) {
+  if (getCredential(req)) {
     return authenticate(req, res, next);
   }
   
   next();
+};
+
+// User sessions carry every scope; API keys only the ones they were created with
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({ error: `API key is missing the ${scope} scope` });
+    }
+    
+    next();
+  };
+};
+
+// Account management (sessions, API keys) is not available to API keys
+export const requireSession = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.sessionId) {
+    return res.status(403).json({ error: 'This endpoint requires a user session' });
+  }
+  
+  next();
+};
+
+export const requireRole = (...roles: UserRole[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return res.status(403).json({ error: 'Insufficient permissions' });
+    }
+    
+    next();
+  };
 };
\ No newline at end of file
@@ -1,7 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { API_KEY_SCOPES } from '../../services/apiKeyService.js';
+import { KNOWN_SYMBOLS } from '../assets.js';
+import { COMPARISON_MAX_SYMBOLS, COMPARISON_MIN_SYMBOLS } from '../comparison.js';
+import { config } from '../config.js';
+import { PROMPT_TEMPLATE_KEYS } from '../promptTemplates.js';
 
-export const validateRequest = (schema: Joi.ObjectSchema) => {
+export const validateRequest = (schema: Joi.Schema) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const { error } = schema.validate(req.body);
     
@@ -16,6 +21,41 @@ export const validateRequest = (schema: Joi.ObjectSchema) => {
   };
 };
 
+// Shared by one-off analyses and schedules
+const analysisType = Joi.string().valid(
+  'BASIC_OVERVIEW',
+  'TECHNICAL_ANALYSIS',
+  'FUNDAMENTAL_ANALYSIS',
+  'PORTFOLIO_REVIEW',
+  'MARKET_SENTIMENT',
+  'DEFI_OPPORTUNITIES',
+  'COMPARISON'
+);
+
+const analysisParameters = Joi.object({
+  // Portfolio reviews cover their holdings and comparisons their symbols rather than one symbol
+  symbol: Joi.string().when('...type', {
+    is: Joi.valid('PORTFOLIO_REVIEW', 'COMPARISON'),
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  }),
+  symbols: Joi.array().items(Joi.string().uppercase().valid(...KNOWN_SYMBOLS))
+    .min(COMPARISON_MIN_SYMBOLS).max(COMPARISON_MAX_SYMBOLS).unique()
+    .when('...type', { is: 'COMPARISON', then: Joi.required(), otherwise: Joi.optional() }),
+  timeframe: Joi.string().optional(),
+  riskTolerance: Joi.string().valid('low', 'medium', 'high').optional(),
+  amount: Joi.number().optional(),
+  holdings: Joi.array().items(Joi.object({
+    asset: Joi.string().uppercase().valid(...KNOWN_SYMBOLS).required(),
+    quantity: Joi.number().positive().required(),
+    costBasis: Joi.number().min(0).optional(),
+    targetPercent: Joi.number().min(0).max(100).optional(),
+  })).min(1).max(config.portfolio.maxHoldings).unique('asset')
+    .when('...type', { is: 'PORTFOLIO_REVIEW', then: Joi.required(), otherwise: Joi.optional() }),
+  chains: Joi.string().optional(),
+  notes: Joi.string().optional(),
+});
+
 // Validation schemas
 export const schemas = {
   register: Joi.object({
@@ -28,23 +68,141 @@ export const schemas = {
     password: Joi.string().required(),
   }),
 
+  refreshToken: Joi.object({
+    refreshToken: Joi.string().required(),
+  }),
+
+  createApiKey: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+    scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).required(),
+    expiresAt: Joi.date().iso().greater('now').optional(),
+  }),
+
+  emailToken: Joi.object({
+    token: Joi.string().required(),
+  }),
+
+  passwordResetRequest: Joi.object({
+    email: Joi.string().email().required(),
+  }),
+
+  passwordReset: Joi.object({
+    token: Joi.string().required(),
+    password: Joi.string().min(6).required(),
+  }),
+
+  twoFactorCode: Joi.object({
+    code: Joi.string().trim().required(),
+  }),
+
+  twoFactorChallenge: Joi.object({
+    challengeToken: Joi.string().required(),
+    code: Joi.string().trim().required(),
+  }),
+
+  linkWallet: Joi.object({
+    message: Joi.string().required(),
+    signature: Joi.string().required(),
+  }),
+
+  linkEmail: Joi.object({
+    email: Joi.string().email().required(),
+    password: Joi.string().min(6).required(),
+  }),
+
+  mergeAccount: Joi.alternatives().try(
+    Joi.object({
+      email: Joi.string().email().required(),
+      password: Joi.string().required(),
+      code: Joi.string().trim(), // required when the account has 2FA enabled
+    }),
+    Joi.object({
+      message: Joi.string().required(),
+      signature: Joi.string().required(),
+      code: Joi.string().trim(), // required when the account has 2FA enabled
+    })
+  ),
+
+  deleteAccount: Joi.alternatives().try(
+    Joi.object({
+      password: Joi.string().required(),
+      code: Joi.string().trim(), // required when the account has 2FA enabled
+    }),
+    Joi.object({
+      message: Joi.string().required(),
+      signature: Joi.string().required(),
+      code: Joi.string().trim(), // required when the account has 2FA enabled
+    })
+  ),
+
+  updateRole: Joi.object({
+    role: Joi.string().valid('USER', 'ANALYST', 'ADMIN').required(),
+  }),
+
+  createOrganization: Joi.object({
+    name: Joi.string().trim().max(100).required(),
+  }),
+
+  updateOrganization: Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    seatLimit: Joi.number().integer().min(1).max(1000).optional(),
+  }).min(1),
+
+  inviteMember: Joi.object({
+    email: Joi.string().email().required(),
+    role: Joi.string().valid('OWNER', 'MEMBER').optional(),
+  }),
+
+  acceptInvitation: Joi.object({
+    token: Joi.string().required(),
+  }),
+
+  updateMemberRole: Joi.object({
+    role: Joi.string().valid('OWNER', 'MEMBER').required(),
+  }),
+
   createAnalysis: Joi.object({
-    type: Joi.string().valid(
-      'BASIC_OVERVIEW',
-      'TECHNICAL_ANALYSIS', 
-      'FUNDAMENTAL_ANALYSIS',
-      'PORTFOLIO_REVIEW',
-      'MARKET_SENTIMENT',
-      'DEFI_OPPORTUNITIES'
-    ).required(),
-    parameters: Joi.object({
-      symbol: Joi.string().required(),
-      timeframe: Joi.string().optional(),
-      riskTolerance: Joi.string().valid('low', 'medium', 'high').optional(),
-      amount: Joi.number().optional(),
-      holdings: Joi.string().optional(),
-      chains: Joi.string().optional(),
-      notes: Joi.string().optional(),
-    }).required(),
+    type: analysisType.required(),
+    parameters: analysisParameters.required(),
+    organizationId: Joi.string().optional(),
+  }),
+
+  createSchedule: Joi.object({
+    type: analysisType.required(),
+    parameters: analysisParameters.required(),
+    cadence: Joi.string().trim().max(100).required(),
+  }),
+
+  createShareLink: Joi.object({
+    analysisId: Joi.string().required(),
+    expiresAt: Joi.date().iso().greater('now').optional(),
+    maxViews: Joi.number().integer().min(1).max(100000).optional(),
   }),
+
+  createTopUp: Joi.object({
+    amount: Joi.number().min(config.credits.minTopUp).max(config.credits.maxTopUp).precision(2).required(),
+  }),
+
+  createPromptTemplate: Joi.object({
+    key: Joi.string().valid(...PROMPT_TEMPLATE_KEYS).required(),
+    body: Joi.string().max(20000).required(),
+    description: Joi.string().trim().max(500).optional(),
+    active: Joi.boolean().optional(),
+    weight: Joi.number().integer().min(0).max(1000).optional(),
+  }),
+
+  updatePromptTemplate: Joi.object({
+    active: Joi.boolean().optional(),
+    weight: Joi.number().integer().min(0).max(1000).optional(),
+  }).min(1),
+
+  // A stored version, or a draft body (the built-in template when omitted) for a key
+  previewPromptTemplate: Joi.object({
+    templateId: Joi.string().optional(),
+    key: Joi.string().valid(...PROMPT_TEMPLATE_KEYS).optional(),
+    body: Joi.string().max(20000).optional(),
+    symbol: Joi.string().uppercase().valid(...KNOWN_SYMBOLS).optional(),
+    parameters: Joi.object().optional(),
+    fullAnalysis: Joi.string().max(50000).optional(),
+  }).xor('templateId', 'key').oxor('templateId', 'body'),
 };
\ No newline at end of file
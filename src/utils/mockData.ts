@@ -0,0 +1,99 @@
+import { KNOWN_ASSETS, KNOWN_SYMBOLS } from './assets.js';
+
+// Fixed market data for demos and environments without market data API access
+
+const MOCK_PRICES: Record<string, number> = {
+  BTC: 43250.75,
+  ETH: 2285.4,
+  SOL: 98.12,
+  BNB: 312.5,
+  XRP: 0.62,
+  ADA: 0.58,
+  DOGE: 0.089,
+  AVAX: 36.8,
+  DOT: 7.42,
+  LINK: 15.3,
+  USDT: 1,
+  USDC: 1,
+  DAI: 1,
+};
+
+// Small stable number per symbol so each mock asset gets its own price and price pattern
+const symbolSeed = (symbol: string) =>
+  symbol.toUpperCase().split('').reduce((sum, char) => sum * 31 + char.charCodeAt(0), 7) % 1000;
+
+const MOCK_BTC = {
+  name: 'Bitcoin',
+  price: 43250.75,
+  marketCap: 847250000000,
+  volume24h: 25470000000,
+  change24h: 2.45,
+  change7d: -1.23,
+  change30d: 8.67,
+  circulatingSupply: 19590000,
+  totalSupply: 19590000,
+  maxSupply: 21000000,
+  rank: 1,
+};
+
+// Other assets are derived from BTC's figures and their seed so comparisons have something to compare
+export const mockCryptoData = (symbol: string) => {
+  const key = symbol.toUpperCase();
+  if (key === 'BTC') {
+    return { symbol, ...MOCK_BTC };
+  }
+
+  const seed = symbolSeed(key);
+  const price = MOCK_PRICES[key] ?? Math.round(seed * 10) / 100 + 1;
+  const rank = KNOWN_SYMBOLS.indexOf(key) + 1 || 50 + (seed % 50);
+  const marketCap = Math.round(MOCK_BTC.marketCap / rank ** 1.5);
+  const circulatingSupply = Math.round(marketCap / price);
+  const stable = price === 1;
+
+  return {
+    symbol,
+    name: KNOWN_ASSETS[key]?.name || key,
+    price,
+    marketCap,
+    volume24h: Math.round(marketCap * (0.02 + (seed % 60) / 1000)),
+    change24h: stable ? 0.01 : ((seed % 90) - 40) / 10,
+    change7d: stable ? 0 : ((seed % 160) - 70) / 10,
+    change30d: stable ? 0.02 : ((seed % 400) - 150) / 10,
+    circulatingSupply,
+    totalSupply: circulatingSupply,
+    ...(seed % 2 === 0 && !stable && { maxSupply: Math.round(circulatingSupply * (1 + (seed % 50) / 100)) }),
+    rank,
+  };
+};
+
+export const mockMarketData = () => ({
+  totalMarketCap: 1750000000000,
+  totalVolume: 85000000000,
+  btcDominance: 48.5,
+  ethDominance: 17.2,
+  marketCapChange24h: 1.8,
+  volumeChange24h: 4.2,
+  fearGreedIndex: 62,
+});
+
+// Hourly prices drifting up to the mock spot price, with a few overlapping swings so indicators have shape
+export const mockHistoricalData = (symbol: string, days: number = 30) => {
+  const { price } = mockCryptoData(symbol);
+  const hours = days * 24;
+  const end = Math.floor(Date.now() / 3600000) * 3600000;
+  const seed = symbolSeed(symbol);
+  // Stablecoins barely move; everything else swings on its own cycle so assets are not perfectly correlated
+  const amplitude = price === 1 ? 0.002 : 1;
+  const slowCycle = 40 + (seed % 40);
+  const fastCycle = 5 + (seed % 7);
+
+  return Array.from({ length: hours }, (_, index) => {
+    const hoursAgo = hours - 1 - index;
+    // Every term is zero at the latest point, which therefore matches the spot price
+    const swing = 0.04 * Math.sin(hoursAgo / slowCycle) + 0.015 * Math.sin(hoursAgo / fastCycle) + 0.005 * Math.sin(hoursAgo * 1.7);
+    const timestamp = end - hoursAgo * 3600000;
+    const value = price * (1 - amplitude * 0.1 * hoursAgo / hours) * (1 + amplitude * swing);
+
+    return { timestamp, price: value, date: new Date(timestamp).toISOString() };
+  });
+};
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { Candle } from './indicators.js';
+
+// Quantitative portfolio figures computed before the model writes the review.
+// Percentages are 0-100; volatility is the annualized standard deviation of daily returns.
+
+export type Holding = {
+  asset: string;
+  quantity: number;
+  costBasis?: number; // average price paid per unit, USD
+  targetPercent?: number;
+};
+
+export type PortfolioPosition = {
+  asset: string;
+  quantity: number;
+  price: number;
+  value: number;
+  weightPercent: number;
+  costBasis: number | null;
+  unrealizedPnl: number | null;
+  unrealizedPnlPercent: number | null;
+  volatilityPercent: number | null;
+};
+
+export type RebalanceTrade = {
+  asset: string;
+  currentPercent: number;
+  targetPercent: number;
+  driftPercent: number;
+  action: 'buy' | 'sell' | 'hold';
+  value: number;
+  quantity: number;
+};
+
+export type PortfolioMetrics = {
+  asOf: string;
+  totalValue: number;
+  positions: PortfolioPosition[];
+  concentration: {
+    hhi: number; // sum of squared percentage weights, 10000 for a single asset
+    effectiveHoldings: number;
+    largestAsset: string;
+    largestWeightPercent: number;
+  };
+  volatility: {
+    portfolioPercent: number | null;
+    observations: number;
+  };
+  correlation: {
+    assets: string[];
+    matrix: (number | null)[][];
+  };
+  rebalancing: {
+    targetSource: 'user' | 'equal_weight';
+    driftThresholdPercent: number;
+    trades: RebalanceTrade[];
+  };
+};
+
+const TRADING_DAYS_PER_YEAR = 365; // crypto trades every day
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Sample covariance; null when there are too few observations to say anything
+const covariance = (a: number[], b: number[]): number | null => {
+  if (a.length < 2) {
+    return null;
+  }
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, index) => sum + (value - meanA) * (b[index] - meanB), 0) / (a.length - 1);
+};
+
+const correlation = (a: number[], b: number[]): number | null => {
+  const cov = covariance(a, b);
+  const varianceA = covariance(a, a);
+  const varianceB = covariance(b, b);
+  if (cov === null || !varianceA || !varianceB) {
+    return null;
+  }
+  return cov / Math.sqrt(varianceA * varianceB);
+};
+
+const annualize = (dailyVariance: number) => Math.sqrt(dailyVariance * TRADING_DAYS_PER_YEAR) * 100;
+
+// Daily returns over the days every asset has a close for, so pairs are compared like for like
+export const alignedReturns = (candles: Record<string, Candle[]>): Record<string, number[]> => {
+  const assets = Object.keys(candles);
+  const closesByDay = assets.map((asset) => new Map(candles[asset].map((candle) => [candle.timestamp, candle.close])));
+  const days = [...closesByDay[0].keys()]
+    .filter((day) => closesByDay.every((closes) => closes.has(day)))
+    .sort((a, b) => a - b);
+
+  return Object.fromEntries(assets.map((asset, index) => {
+    const closes = days.map((day) => closesByDay[index].get(day)!);
+    return [asset, closes.slice(1).map((close, day) => close / closes[day] - 1)];
+  }));
+};
+
+export const computePortfolioMetrics = (
+  holdings: Holding[],
+  candles: Record<string, Candle[]>,
+  driftThresholdPercent: number
+): PortfolioMetrics => {
+  const assets = holdings.map((holding) => holding.asset);
+  const prices = Object.fromEntries(assets.map((asset) => [asset, candles[asset][candles[asset].length - 1].close]));
+  const values = holdings.map((holding) => holding.quantity * prices[holding.asset]);
+  const totalValue = values.reduce((sum, value) => sum + value, 0);
+  const weights = values.map((value) => (totalValue > 0 ? value / totalValue : 0));
+
+  const returns = alignedReturns(candles);
+  const observations = returns[assets[0]].length;
+
+  const positions: PortfolioPosition[] = holdings.map((holding, index) => {
+    const variance = covariance(returns[holding.asset], returns[holding.asset]);
+    const cost = holding.costBasis !== undefined ? holding.costBasis * holding.quantity : null;
+
+    return {
+      asset: holding.asset,
+      quantity: holding.quantity,
+      price: prices[holding.asset],
+      value: round(values[index]),
+      weightPercent: round(weights[index] * 100),
+      costBasis: holding.costBasis ?? null,
+      unrealizedPnl: cost !== null ? round(values[index] - cost) : null,
+      unrealizedPnlPercent: cost ? round(((values[index] - cost) / cost) * 100) : null,
+      volatilityPercent: variance !== null ? round(annualize(variance)) : null,
+    };
+  });
+
+  // w' Σ w over the aligned daily returns
+  let portfolioVariance: number | null = 0;
+  for (let i = 0; i < assets.length && portfolioVariance !== null; i++) {
+    for (let j = 0; j < assets.length; j++) {
+      const cov = covariance(returns[assets[i]], returns[assets[j]]);
+      if (cov === null) {
+        portfolioVariance = null;
+        break;
+      }
+      portfolioVariance += weights[i] * weights[j] * cov;
+    }
+  }
+
+  const hhi = weights.reduce((sum, weight) => sum + (weight * 100) ** 2, 0);
+  const largest = positions.reduce((max, position) => (position.weightPercent > max.weightPercent ? position : max));
+
+  const userTargets = holdings.every((holding) => holding.targetPercent !== undefined);
+  const trades: RebalanceTrade[] = holdings.map((holding, index) => {
+    const targetPercent = userTargets ? holding.targetPercent! : 100 / holdings.length;
+    const currentPercent = weights[index] * 100;
+    const driftPercent = currentPercent - targetPercent;
+    const value = ((targetPercent - currentPercent) / 100) * totalValue;
+    const action = Math.abs(driftPercent) < driftThresholdPercent ? 'hold' : value > 0 ? 'buy' : 'sell';
+
+    return {
+      asset: holding.asset,
+      currentPercent: round(currentPercent),
+      targetPercent: round(targetPercent),
+      driftPercent: round(driftPercent),
+      action,
+      value: action === 'hold' ? 0 : round(Math.abs(value)),
+      quantity: action === 'hold' ? 0 : round(Math.abs(value) / prices[holding.asset], 8),
+    };
+  });
+
+  return {
+    asOf: new Date(Math.max(...assets.map((asset) => candles[asset][candles[asset].length - 1].timestamp))).toISOString(),
+    totalValue: round(totalValue),
+    positions,
+    concentration: {
+      hhi: round(hhi, 0),
+      effectiveHoldings: hhi > 0 ? round(10000 / hhi) : 0,
+      largestAsset: largest.asset,
+      largestWeightPercent: largest.weightPercent,
+    },
+    volatility: {
+      portfolioPercent: portfolioVariance !== null ? round(annualize(portfolioVariance)) : null,
+      observations,
+    },
+    correlation: {
+      assets,
+      matrix: assets.map((a) => assets.map((b) => {
+        const value = a === b ? 1 : correlation(returns[a], returns[b]);
+        return value === null ? null : round(value, 3);
+      })),
+    },
+    rebalancing: {
+      targetSource: userTargets ? 'user' : 'equal_weight',
+      driftThresholdPercent,
+      trades,
+    },
+  };
+};
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { IndicatorSnapshot } from './indicators.js';
+import { PortfolioMetrics } from './portfolioMetrics.js';
+import { ComparisonTable, comparisonMarkdown } from './comparison.js';
+
+// Prompts are templates with {{variable}} placeholders; dotted paths reach into objects ({{cryptoData.price}}).
+// Admins store new versions per key in the database; a key without active versions uses the built-in one below.
+
+// Bump when the built-in prompts change, so stored analysis versions say which prompts produced them
+export const BUILTIN_PROMPT_VERSION = 'builtin-1';
+
+export const SUMMARY_TEMPLATE_KEY = 'EXECUTIVE_SUMMARY';
+
+// Figures computed server-side that the model should quote rather than estimate
+export interface ComputedInputs {
+  indicators?: IndicatorSnapshot | null;
+  portfolio?: PortfolioMetrics | null;
+  comparison?: ComparisonTable | null;
+}
+
+// A template chosen for one generation; id and version are null for the built-in template
+export type PromptTemplateRef = {
+  id: string | null;
+  key: string;
+  version: number | null;
+};
+
+export type SelectedPromptTemplate = PromptTemplateRef & { body: string };
+
+const ANALYSIS_BASE = `
+You are CryptoAnalyst AI, a professional cryptocurrency investment analysis service.
+Generate a comprehensive {{analysisType}} report based on the following data:
+
+CRYPTO DATA:
+{{cryptoData}}
+
+MARKET DATA:
+{{marketData}}
+{{computedSection}}
+USER PARAMETERS:
+{{parameters}}
+
+Please provide a detailed, professional analysis including:
+`;
+
+const ANALYSIS_SECTIONS: Record<string, string> = {
+  BASIC_OVERVIEW: `
+1. Current price and market cap summary
+2. 24h/7d/30d performance analysis
+3. Key support and resistance levels
+4. Overall market sentiment
+5. Risk assessment (1-10 scale)
+6. Short-term outlook (1-4 weeks)
+7. Actionable recommendations
+
+Format as a professional investment report with clear sections and bullet points.
+`,
+
+  TECHNICAL_ANALYSIS: `
+1. Chart pattern analysis
+2. Moving averages (SMA, EMA) analysis
+3. RSI, MACD, and momentum indicators
+4. Volume analysis
+5. Fibonacci retracement levels
+6. Entry/exit point recommendations
+7. Stop-loss and take-profit levels
+8. Risk/reward ratio assessment
+
+Include specific price targets and timeframes.
+`,
+
+  FUNDAMENTAL_ANALYSIS: `
+1. Project fundamentals and technology assessment
+2. Team and development activity analysis
+3. Tokenomics and supply dynamics
+4. Partnerships and ecosystem growth
+5. Competitive landscape analysis
+6. Regulatory considerations
+7. Long-term value proposition
+8. Investment thesis and conviction level
+
+Provide a comprehensive fundamental score (1-100).
+`,
+
+  PORTFOLIO_REVIEW: `
+1. Portfolio composition analysis
+2. Diversification assessment
+3. Risk distribution across assets
+4. Correlation analysis between holdings
+5. Rebalancing recommendations
+6. Position sizing optimization
+7. Performance attribution
+8. Future allocation suggestions
+
+Include specific percentage allocations and rebalancing strategy.
+`,
+
+  MARKET_SENTIMENT: `
+1. Social media sentiment analysis
+2. News sentiment and media coverage
+3. On-chain activity patterns
+4. Institutional interest indicators
+5. Fear & Greed index interpretation
+6. Market psychology assessment
+7. Contrarian vs. trend-following signals
+8. Sentiment-based trading opportunities
+
+Provide sentiment score (-100 to +100) and implications.
+`,
+
+  DEFI_OPPORTUNITIES: `
+1. DeFi protocol analysis and opportunities
+2. Yield farming strategies
+3. Liquidity mining programs
+4. Staking rewards analysis
+5. Impermanent loss calculations
+6. Smart contract risk assessment
+7. APY sustainability analysis
+8. Portfolio DeFi allocation recommendations
+
+Include specific protocols, APYs, and risk ratings.
+`,
+
+  COMPARISON: `
+1. Side-by-side summary of the compared assets using the comparison table
+2. Relative valuation: market cap, volume turnover and supply overhang
+3. Relative momentum across the 24h, 7d and 30d windows
+4. Key differentiators: technology, ecosystem and adoption
+5. Relative risks of each asset
+6. Ranking of the assets from most to least attractive, with a score (1-100) each
+7. Which investor profile each asset suits best
+
+Rank every asset in the comparison table exactly once and justify each position against the others.
+`,
+};
+
+const GENERIC_SECTION = `
+Provide a comprehensive cryptocurrency analysis covering all relevant aspects including technical, fundamental, and market considerations.
+`;
+
+const SUMMARY_TEMPLATE = `
+Based on the following comprehensive cryptocurrency analysis, generate a concise executive summary in 3-4 sentences that captures the key insights and recommendations:
+
+FULL ANALYSIS:
+{{fullAnalysis}}
+
+EXECUTIVE SUMMARY:
+`;
+
+export const PROMPT_TEMPLATE_KEYS = [...Object.keys(ANALYSIS_SECTIONS), SUMMARY_TEMPLATE_KEY];
+
+const ANALYSIS_VARIABLES = [
+  'analysisType',
+  'symbol',
+  'cryptoData',
+  'marketData',
+  'parameters',
+  'computedSection', // indicators, portfolio metrics and comparison table with their instructions, when present
+  'indicators',
+  'portfolio',
+  'comparison',
+];
+
+const SUMMARY_VARIABLES = ['fullAnalysis'];
+
+export const templateVariablesFor = (key: string): string[] =>
+  key === SUMMARY_TEMPLATE_KEY ? SUMMARY_VARIABLES : ANALYSIS_VARIABLES;
+
+export const builtinTemplate = (key: string): SelectedPromptTemplate => ({
+  id: null,
+  key,
+  version: null,
+  body: key === SUMMARY_TEMPLATE_KEY ? SUMMARY_TEMPLATE : ANALYSIS_BASE + (ANALYSIS_SECTIONS[key] ?? GENERIC_SECTION),
+});
+
+export const templateRef = ({ id, key, version }: PromptTemplateRef): PromptTemplateRef => ({ id, key, version });
+
+// TECHNICAL_ANALYSIS@v3, EXECUTIVE_SUMMARY@builtin-1
+export const templateLabel = (template: PromptTemplateRef) =>
+  `${template.key}@${template.id ? `v${template.version}` : BUILTIN_PROMPT_VERSION}`;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*(?:\.\w+)*)\s*\}\}/g;
+
+// Variable paths used by a template, in order of first use
+export const templateVariables = (body: string): string[] =>
+  [...new Set([...body.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+
+// Problems that would leave placeholders unfilled; empty when the template is usable for the key
+export const templateErrors = (key: string, body: string): string[] => {
+  const available = templateVariablesFor(key);
+  const errors = templateVariables(body)
+    .filter((path) => !available.includes(path.split('.')[0]))
+    .map((path) => `Unknown variable {{${path}}}; available: ${available.join(', ')}`);
+
+  if (body.replace(PLACEHOLDER, '').includes('{{')) {
+    errors.push('Malformed placeholder; use {{name}} or {{name.field}}');
+  }
+  return errors;
+};
+
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value, null, 2) : String(value);
+};
+
+// Objects are inserted as indented JSON, missing values as nothing
+export const renderTemplate = (body: string, variables: Record<string, any>): string =>
+  body.replace(PLACEHOLDER, (_, path: string) => formatValue(path.split('.').reduce((value, key) => value?.[key], variables)));
+
+export const analysisTemplateVariables = (
+  analysisType: string,
+  cryptoData: any,
+  marketData: any,
+  parameters: any,
+  computed: ComputedInputs
+): Record<string, any> => {
+  const { indicators, portfolio, comparison } = computed;
+  const computedSection = [
+    indicators && `
+TECHNICAL INDICATORS (computed from ${indicators.candles} daily candles; quote these values, do not estimate your own):
+${JSON.stringify(indicators, null, 2)}
+`,
+    portfolio && `
+PORTFOLIO METRICS (computed from the user's holdings at current prices; percentages are 0-100, volatility is annualized; base recommendations on these figures):
+${JSON.stringify(portfolio, null, 2)}
+`,
+    comparison && `
+COMPARISON TABLE (current metrics for every asset being compared):
+${comparisonMarkdown(comparison)}
+`,
+  ].filter(Boolean).join('');
+
+  return {
+    analysisType,
+    symbol: cryptoData?.symbol,
+    cryptoData,
+    marketData,
+    parameters,
+    computedSection,
+    indicators,
+    portfolio,
+    comparison,
+  };
+};
+
+// Picks a candidate with probability proportional to its weight; all-zero weights count as equal
+export const weightedPick = <T extends { weight: number }>(candidates: T[], random: () => number = Math.random): T | null => {
+  if (!candidates.length) {
+    return null;
+  }
+
+  const total = candidates.reduce((sum, candidate) => sum + Math.max(0, candidate.weight), 0);
+  if (total <= 0) {
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  let remaining = random() * total;
+  for (const candidate of candidates) {
+    remaining -= Math.max(0, candidate.weight);
+    if (remaining < 0) {
+      return candidate;
+    }
+  }
+  return candidates[candidates.length - 1];
+};
\ No newline at end of file
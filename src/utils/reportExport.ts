@@ -0,0 +1,223 @@
+import { Marked, Tokens } from 'marked';
+import { config } from './config.js';
+
+// Completed analyses rendered as downloadable documents. Markdown is the source for every format:
+// HTML renders it with marked, PDF lays the same tokens out with pdfkit (see reportPdf.ts).
+
+export const EXPORT_FORMATS = ['md', 'html', 'pdf'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+export const REPORT_DISCLAIMER =
+  'This report is generated automatically from market data and AI models for informational purposes only. ' +
+  'It is not financial, investment or tax advice. Cryptocurrency markets are highly volatile; ' +
+  'do your own research and never invest more than you can afford to lose.';
+
+export type SnapshotRow = { label: string; value: string };
+
+export type ReportDocument = {
+  brandName: string;
+  brandColor: string;
+  analysisId: string;
+  title: string;
+  subject: string;
+  generatedAt: string;
+  executiveSummary: string;
+  assetSnapshot: SnapshotRow[];
+  marketSnapshot: SnapshotRow[];
+  fullAnalysis: string;
+  disclaimer: string;
+};
+
+export const isExportFormat = (format: string): format is ExportFormat => (EXPORT_FORMATS as readonly string[]).includes(format);
+
+// BASIC_OVERVIEW -> Basic Overview
+const typeTitle = (type: string) =>
+  type.toLowerCase().split('_').map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const subjectOf = (parameters: any): string => {
+  if (Array.isArray(parameters?.symbols)) {
+    return parameters.symbols.join(' vs ');
+  }
+  if (Array.isArray(parameters?.holdings)) {
+    return parameters.holdings.map((holding: any) => holding.asset).join(', ');
+  }
+  return parameters?.symbol ? String(parameters.symbol).toUpperCase() : '';
+};
+
+const isNumber = (value: any): value is number => typeof value === 'number' && isFinite(value);
+
+// $1.23T / $456.78B / $12.3M for aggregates, full precision for prices
+const compactUsd = (value: any): string => {
+  if (!isNumber(value)) {
+    return 'n/a';
+  }
+  for (const [divisor, suffix] of [[1e12, 'T'], [1e9, 'B'], [1e6, 'M']] as const) {
+    if (Math.abs(value) >= divisor) {
+      return `$${(value / divisor).toFixed(2)}${suffix}`;
+    }
+  }
+  return `$${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+};
+
+const price = (value: any): string => {
+  if (!isNumber(value)) {
+    return 'n/a';
+  }
+  const digits = Math.abs(value) >= 1 ? 2 : 6;
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: digits })}`;
+};
+
+const percent = (value: any, signed: boolean = true): string =>
+  isNumber(value) ? `${signed && value > 0 ? '+' : ''}${value.toFixed(2)}%` : 'n/a';
+
+const amount = (value: any): string => (isNumber(value) ? value.toLocaleString('en-US', { maximumFractionDigits: 0 }) : 'n/a');
+
+export const buildReportDocument = (analysis: {
+  id: string;
+  type: string;
+  parameters: any;
+  result: any;
+  completedAt: Date | null;
+}): ReportDocument => {
+  const result = analysis.result || {};
+  const crypto = result.cryptoData || {};
+  const market = result.marketData || {};
+
+  return {
+    brandName: config.reports.brandName,
+    brandColor: config.reports.brandColor,
+    analysisId: analysis.id,
+    title: typeTitle(analysis.type),
+    subject: subjectOf(analysis.parameters),
+    generatedAt: result.generatedAt || analysis.completedAt?.toISOString() || new Date().toISOString(),
+    executiveSummary: result.executiveSummary || '',
+    assetSnapshot: crypto.symbol ? [
+      { label: 'Asset', value: `${crypto.name} (${crypto.symbol})` },
+      { label: 'Price', value: price(crypto.price) },
+      { label: 'Market cap', value: compactUsd(crypto.marketCap) },
+      { label: 'Rank', value: isNumber(crypto.rank) ? `#${crypto.rank}` : 'n/a' },
+      { label: '24h volume', value: compactUsd(crypto.volume24h) },
+      { label: 'Change 24h / 7d / 30d', value: [crypto.change24h, crypto.change7d, crypto.change30d].map((change) => percent(change)).join(' / ') },
+      { label: 'Circulating supply', value: amount(crypto.circulatingSupply) },
+      { label: 'Max supply', value: crypto.maxSupply ? amount(crypto.maxSupply) : 'Unlimited' },
+    ] : [],
+    marketSnapshot: isNumber(market.totalMarketCap) ? [
+      { label: 'Total market cap', value: compactUsd(market.totalMarketCap) },
+      { label: 'Total 24h volume', value: compactUsd(market.totalVolume) },
+      { label: 'Market cap change 24h', value: percent(market.marketCapChange24h) },
+      { label: 'BTC / ETH dominance', value: `${percent(market.btcDominance, false)} / ${percent(market.ethDominance, false)}` },
+      ...(isNumber(market.fearGreedIndex) ? [{ label: 'Fear & Greed index', value: String(market.fearGreedIndex) }] : []),
+    ] : [],
+    fullAnalysis: result.fullAnalysis || '',
+    disclaimer: REPORT_DISCLAIMER,
+  };
+};
+
+// Pipes would end the cell early
+const cell = (value: string) => value.replace(/\|/g, '\\|');
+
+const snapshotTable = (rows: SnapshotRow[]) =>
+  ['| Metric | Value |', '| --- | --- |', ...rows.map((row) => `| ${cell(row.label)} | ${cell(row.value)} |`)].join('\n');
+
+export const reportHeading = (document: ReportDocument) =>
+  document.subject ? `${document.title}: ${document.subject}` : document.title;
+
+export const formatGeneratedAt = (document: ReportDocument) =>
+  `${new Date(document.generatedAt).toISOString().replace('T', ' ').slice(0, 16)} UTC`;
+
+// Summary, snapshot and report; shared by every format, which each add their own header and footer
+export const reportBodyMarkdown = (document: ReportDocument): string => {
+  const sections = [`## Executive Summary\n\n${document.executiveSummary || '_No summary available._'}`];
+
+  if (document.assetSnapshot.length || document.marketSnapshot.length) {
+    sections.push([
+      '## Market Snapshot',
+      ...(document.assetSnapshot.length ? [`### Asset\n\n${snapshotTable(document.assetSnapshot)}`] : []),
+      ...(document.marketSnapshot.length ? [`### Market\n\n${snapshotTable(document.marketSnapshot)}`] : []),
+    ].join('\n\n'));
+  }
+
+  sections.push(`## Full Analysis\n\n${document.fullAnalysis}`);
+  return sections.join('\n\n');
+};
+
+export const renderMarkdownReport = (document: ReportDocument): string => [
+  `# ${document.brandName} | ${reportHeading(document)}`,
+  `_Generated ${formatGeneratedAt(document)} | Analysis ${document.analysisId}_`,
+  reportBodyMarkdown(document),
+  '---',
+  `_Disclaimer: ${document.disclaimer}_`,
+].join('\n\n') + '\n';
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Model output is untrusted: raw HTML is shown as text, only http(s)/mailto links survive and images are
+// reduced to their alt text so the document never loads anything remotely
+const markdown = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }: Tokens.Link) {
+      const text = this.parser.parseInline(tokens);
+      return SAFE_LINK.test(href) ? `<a href="${escapeHtml(href)}" rel="noopener noreferrer">${text}</a>` : text;
+    },
+    image({ text }: Tokens.Image) {
+      return escapeHtml(text);
+    },
+  },
+});
+
+export const renderHtmlReport = (document: ReportDocument): string => {
+  const heading = escapeHtml(reportHeading(document));
+  const color = escapeHtml(document.brandColor);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${heading} | ${escapeHtml(document.brandName)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.55; max-width: 860px; margin: 0 auto; padding: 32px 24px; }
+  header { border-bottom: 3px solid ${color}; padding-bottom: 16px; margin-bottom: 24px; }
+  header .brand { color: ${color}; font-weight: 700; letter-spacing: 0.04em; text-transform: uppercase; font-size: 13px; }
+  header h1 { margin: 6px 0 4px; font-size: 26px; }
+  header .meta { color: #6b7280; font-size: 13px; }
+  h2 { color: ${color}; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; margin-top: 32px; }
+  table { border-collapse: collapse; margin: 12px 0; min-width: 50%; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; font-size: 14px; }
+  th { background: #f3f4f6; }
+  code, pre { font-family: Menlo, Consolas, monospace; background: #f3f4f6; border-radius: 4px; }
+  pre { padding: 12px; overflow-x: auto; }
+  blockquote { border-left: 3px solid #d1d5db; margin-left: 0; padding-left: 12px; color: #4b5563; }
+  footer { margin-top: 40px; padding-top: 12px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 12px; }
+</style>
+</head>
+<body>
+<header>
+  <div class="brand">${escapeHtml(document.brandName)}</div>
+  <h1>${heading}</h1>
+  <div class="meta">Generated ${escapeHtml(formatGeneratedAt(document))} &middot; Analysis ${escapeHtml(document.analysisId)}</div>
+</header>
+<main>
+${markdown.parse(reportBodyMarkdown(document), { async: false })}
+</main>
+<footer>
+  <strong>Disclaimer:</strong> ${escapeHtml(document.disclaimer)}
+</footer>
+</body>
+</html>
+`;
+};
\ No newline at end of file
@@ -0,0 +1,274 @@
+import PDFDocument from 'pdfkit';
+import { Lexer, Token, Tokens } from 'marked';
+import { ReportDocument, formatGeneratedAt, reportBodyMarkdown, reportHeading } from './reportExport.js';
+
+// PDF export laid out with pdfkit's built-in fonts, so it needs no browser, font files or network access
+
+type Run = { text: string; bold?: boolean; italic?: boolean; code?: boolean; link?: string };
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const RULE_COLOR = '#e5e7eb';
+const MARGIN = 56;
+const LIST_INDENT = 16;
+const HEADING_SIZES: Record<number, number> = { 1: 18, 2: 15, 3: 12.5 };
+
+// The standard fonts only cover WinAnsi; spell out the symbols models like to use and drop the rest
+const REPLACEMENTS: Record<string, string> = {
+  '→': '->', '←': '<-', '↑': 'up', '↓': 'down', '≈': '~', '≥': '>=', '≤': '<=', '±': '+/-', '✓': 'x', '✔': 'x', '✗': '-', '−': '-',
+};
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+const pdfText = (text: string) =>
+  [...text.replace(/[→←↑↓≈≥≤±✓✔✗−]/g, (symbol) => REPLACEMENTS[symbol])]
+    .filter((char) => char.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(char))
+    .join('');
+
+const fontFor = (run: Run) => {
+  if (run.code) {
+    return 'Courier';
+  }
+  if (run.bold && run.italic) {
+    return 'Helvetica-BoldOblique';
+  }
+  return run.bold ? 'Helvetica-Bold' : run.italic ? 'Helvetica-Oblique' : 'Helvetica';
+};
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Flattens inline tokens into styled runs; raw HTML is kept as text, images as their alt text
+const inlineRuns = (tokens: Token[] = [], style: Omit<Run, 'text'> = {}): Run[] =>
+  tokens.flatMap((token): Run[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns((token as Tokens.Strong).tokens, { ...style, bold: true });
+      case 'em':
+        return inlineRuns((token as Tokens.Em).tokens, { ...style, italic: true });
+      case 'del':
+        return inlineRuns((token as Tokens.Del).tokens, style);
+      case 'link': {
+        const link = token as Tokens.Link;
+        return inlineRuns(link.tokens, SAFE_LINK.test(link.href) ? { ...style, link: link.href } : style);
+      }
+      case 'codespan':
+        return [{ ...style, code: true, text: (token as Tokens.Codespan).text }];
+      case 'br':
+        return [{ ...style, text: '\n' }];
+      case 'text':
+        return 'tokens' in token && token.tokens ? inlineRuns(token.tokens, style) : [{ ...style, text: token.text }];
+      default:
+        return 'text' in token ? [{ ...style, text: String(token.text) }] : [];
+    }
+  });
+
+const plainText = (tokens: Token[]) => inlineRuns(tokens).map((run) => run.text).join('');
+
+class ReportPdfWriter {
+  private doc: PDFKit.PDFDocument;
+  private report: ReportDocument;
+
+  constructor(doc: PDFKit.PDFDocument, report: ReportDocument) {
+    this.doc = doc;
+    this.report = report;
+  }
+
+  write(): void {
+    this.header();
+    this.blocks(new Lexer({ gfm: true }).lex(reportBodyMarkdown(this.report)), 0);
+    this.disclaimer();
+    this.pageFooters();
+  }
+
+  private get contentWidth() {
+    return this.doc.page.width - MARGIN * 2;
+  }
+
+  // Starts a new page rather than leaving a heading or table header stranded at the bottom
+  private keepSpace(height: number) {
+    if (this.doc.y + height > this.doc.page.height - this.doc.page.margins.bottom) {
+      this.doc.addPage();
+    }
+  }
+
+  private header() {
+    const { doc, report } = this;
+
+    doc.rect(0, 0, doc.page.width, 6).fill(report.brandColor);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(report.brandColor)
+      .text(pdfText(report.brandName.toUpperCase()), MARGIN, MARGIN, { characterSpacing: 1 });
+    doc.moveDown(0.3);
+    doc.font('Helvetica-Bold').fontSize(22).fillColor(TEXT_COLOR).text(pdfText(reportHeading(report)));
+    doc.moveDown(0.2);
+    doc.font('Helvetica').fontSize(9.5).fillColor(MUTED_COLOR)
+      .text(`Generated ${formatGeneratedAt(report)}  |  Analysis ${report.analysisId}`);
+    doc.moveDown(0.6);
+    this.rule(report.brandColor, 2);
+  }
+
+  private rule(color: string = RULE_COLOR, width: number = 1) {
+    const y = this.doc.y;
+    this.doc.moveTo(MARGIN, y).lineTo(this.doc.page.width - MARGIN, y).lineWidth(width).strokeColor(color).stroke();
+    this.doc.moveDown(0.8);
+  }
+
+  private runs(runs: Run[], options: { x: number; width: number; size?: number; color?: string }) {
+    const { doc } = this;
+    const visible = runs.map((run) => ({ ...run, text: pdfText(run.text) })).filter((run) => run.text);
+
+    if (!visible.length) {
+      return;
+    }
+
+    doc.fontSize(options.size || 10.5);
+    visible.forEach((run, index) => {
+      doc.font(fontFor(run)).fillColor(run.link ? this.report.brandColor : options.color || TEXT_COLOR);
+      const common = { continued: index < visible.length - 1, link: run.link || null, underline: Boolean(run.link), lineGap: 2 };
+      if (index === 0) {
+        doc.text(run.text, options.x, doc.y, { ...common, width: options.width });
+      } else {
+        doc.text(run.text, common);
+      }
+    });
+  }
+
+  private blocks(tokens: Token[], level: number) {
+    for (const token of tokens) {
+      this.block(token, level);
+    }
+  }
+
+  private block(token: Token, level: number) {
+    const { doc } = this;
+    const x = MARGIN + level * LIST_INDENT;
+    const width = this.contentWidth - level * LIST_INDENT;
+
+    switch (token.type) {
+      case 'heading': {
+        const heading = token as Tokens.Heading;
+        const size = HEADING_SIZES[heading.depth] || 11;
+        this.keepSpace(size * 4);
+        doc.moveDown(heading.depth <= 2 ? 0.6 : 0.3);
+        this.runs(inlineRuns(heading.tokens, { bold: true }), {
+          x, width, size, color: heading.depth <= 2 ? this.report.brandColor : TEXT_COLOR,
+        });
+        doc.moveDown(0.4);
+        break;
+      }
+      case 'paragraph':
+      case 'text':
+        this.runs(inlineRuns('tokens' in token && token.tokens ? token.tokens : [{ type: 'text', raw: token.raw, text: token.raw }]), { x, width });
+        doc.moveDown(level > 0 ? 0.2 : 0.6);
+        break;
+      case 'list':
+        this.list(token as Tokens.List, level);
+        doc.moveDown(level > 0 ? 0 : 0.4);
+        break;
+      case 'table':
+        this.table(token as Tokens.Table, x, width);
+        break;
+      case 'blockquote':
+        this.blocks((token as Tokens.Blockquote).tokens, level + 1);
+        break;
+      case 'code':
+        doc.font('Courier').fontSize(9).fillColor(TEXT_COLOR).text(pdfText((token as Tokens.Code).text), x, doc.y, { width });
+        doc.moveDown(0.6);
+        break;
+      case 'hr':
+        this.rule();
+        break;
+      case 'html':
+        this.runs([{ text: (token as Tokens.HTML).text }], { x, width });
+        doc.moveDown(0.6);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private list(list: Tokens.List, level: number) {
+    const start = typeof list.start === 'number' ? list.start : 1;
+
+    list.items.forEach((item, index) => {
+      const marker = list.ordered ? `${start + index}.` : '•';
+      const x = MARGIN + level * LIST_INDENT;
+
+      this.doc.font('Helvetica').fontSize(10.5).fillColor(TEXT_COLOR);
+      this.keepSpace(this.doc.currentLineHeight(true) * 2);
+      const y = this.doc.y;
+      this.doc.text(marker, x, y, { width: LIST_INDENT, lineBreak: false });
+      this.doc.y = y;
+      this.blocks(item.tokens, level + 1);
+    });
+  }
+
+  private table(table: Tokens.Table, x: number, width: number) {
+    this.keepSpace(60);
+
+    this.doc.font('Helvetica').fontSize(9.5).fillColor(TEXT_COLOR);
+    this.doc.table({
+      position: { x, y: this.doc.y },
+      maxWidth: width,
+      defaultStyle: { border: 0.5, borderColor: RULE_COLOR, padding: 5 },
+      data: [
+        table.header.map((cell) => ({ text: pdfText(plainText(cell.tokens)), type: 'TH' as const, backgroundColor: '#f3f4f6', font: { src: 'Helvetica-Bold' } })),
+        ...table.rows.map((row) => row.map((cell) => pdfText(plainText(cell.tokens)))),
+      ],
+    });
+    this.doc.x = MARGIN;
+    this.doc.moveDown(0.8);
+  }
+
+  private disclaimer() {
+    this.doc.moveDown(1);
+    this.keepSpace(80);
+    this.rule();
+    this.doc.font('Helvetica-Bold').fontSize(8.5).fillColor(MUTED_COLOR).text('Disclaimer: ', MARGIN, this.doc.y, { continued: true, width: this.contentWidth });
+    this.doc.font('Helvetica').text(pdfText(this.report.disclaimer));
+  }
+
+  // Brand and page numbers on every page, written once the page count is known
+  private pageFooters() {
+    const { doc } = this;
+    const range = doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      // Writing inside the bottom margin would otherwise start a new page
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR).text(
+        `${pdfText(this.report.brandName)}  |  Page ${index + 1} of ${range.count}`,
+        MARGIN,
+        doc.page.height - MARGIN / 2 - 8,
+        { width: this.contentWidth, align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottom;
+    }
+  }
+}
+
+export const renderPdfReport = (report: ReportDocument): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `${reportHeading(report)} | ${report.brandName}`,
+        Author: report.brandName,
+        CreationDate: new Date(report.generatedAt),
+      },
+    });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      new ReportPdfWriter(doc, report).write();
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
\ No newline at end of file
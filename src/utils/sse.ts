@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: any): void;
+  close(): void;
+  onClose(listener: () => void): void;
+}
+
+// Keeps proxies and load balancers from dropping an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Switches the response to text/event-stream; the stream ends when either side closes it
+export const openEventStream = (req: Request, res: Response): EventStream => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const closeListeners: Array<() => void> = [];
+  let closed = false;
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  const cleanup = () => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    closeListeners.forEach((listener) => listener());
+  };
+
+  req.on('close', cleanup);
+
+  return {
+    send(event, data) {
+      if (!closed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    close() {
+      cleanup();
+      res.end();
+    },
+    // Listeners added after the client went away (e.g. during an await) run at once
+    onClose(listener) {
+      if (closed) {
+        listener();
+        return;
+      }
+      closeListeners.push(listener);
+    },
+  };
+};
\ No newline at end of file
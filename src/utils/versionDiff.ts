@@ -0,0 +1,157 @@
+// Differences between two generations of an analysis: the figures it was built on and quoted,
+// the recommendation fields of the structured output, and the report text line by line.
+
+export type NumberChange = {
+  path: string;
+  from: number | null;
+  to: number | null;
+  change: number | null;
+  changePercent: number | null;
+};
+
+export type RecommendationChange = {
+  path: string;
+  from: any;
+  to: any;
+  added?: string[];
+  removed?: string[];
+};
+
+export type VersionDiff = {
+  from: number;
+  to: number;
+  numbers: NumberChange[];
+  recommendations: RecommendationChange[];
+  summaryChanged: boolean;
+  report: { added: string[]; removed: string[]; unchanged: number };
+};
+
+// Parts of a result whose numeric leaves are compared
+const NUMERIC_SECTIONS = ['cryptoData', 'marketData', 'indicators', 'portfolio', 'comparison', 'structured'];
+
+// Longest report the line diff runs on; beyond it the quadratic table gets expensive
+const MAX_DIFF_LINES = 2000;
+
+const round = (value: number, digits: number = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// { a: { b: [1, 2] } } -> { 'a.b[0]': 1, 'a.b[1]': 2 }
+const flatten = (value: any, path: string, into: Map<string, any>): Map<string, any> => {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, `${path}[${index}]`, into));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, path ? `${path}.${key}` : key, into);
+    }
+  } else if (value !== undefined) {
+    into.set(path, value);
+  }
+  return into;
+};
+
+const numericLeaves = (result: any) => {
+  const leaves = new Map<string, any>();
+  for (const section of NUMERIC_SECTIONS) {
+    flatten(result?.[section], section, leaves);
+  }
+  return new Map([...leaves].filter(([, value]) => typeof value === 'number'));
+};
+
+const isStringList = (value: any): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+export const diffNumbers = (from: any, to: any): NumberChange[] => {
+  const before = numericLeaves(from);
+  const after = numericLeaves(to);
+  const paths = [...new Set([...before.keys(), ...after.keys()])];
+
+  return paths
+    .filter((path) => before.get(path) !== after.get(path))
+    .map((path) => {
+      const a = before.has(path) ? before.get(path) : null;
+      const b = after.has(path) ? after.get(path) : null;
+      const change = a !== null && b !== null ? round(b - a) : null;
+
+      return {
+        path,
+        from: a,
+        to: b,
+        change,
+        changePercent: change !== null && a ? round((change / Math.abs(a)) * 100, 2) : null,
+      };
+    });
+};
+
+// Non-numeric structured fields (outlook, conviction, winner, ...) and lists of points compared as sets
+export const diffRecommendations = (from: any, to: any): RecommendationChange[] => {
+  const changes: RecommendationChange[] = [];
+
+  const walk = (a: any, b: any, path: string) => {
+    if (isStringList(a) || isStringList(b)) {
+      const before = isStringList(a) ? a : [];
+      const after = isStringList(b) ? b : [];
+      const added = after.filter((item) => !before.includes(item));
+      const removed = before.filter((item) => !after.includes(item));
+      if (added.length || removed.length) {
+        changes.push({ path, from: a ?? null, to: b ?? null, added, removed });
+      }
+    } else if (Array.isArray(a) || Array.isArray(b)) {
+      const length = Math.max(a?.length ?? 0, b?.length ?? 0);
+      for (let index = 0; index < length; index++) {
+        walk(a?.[index], b?.[index], `${path}[${index}]`);
+      }
+    } else if ((a && typeof a === 'object') || (b && typeof b === 'object')) {
+      for (const key of new Set([...Object.keys(a || {}), ...Object.keys(b || {})])) {
+        walk(a?.[key], b?.[key], path ? `${path}.${key}` : key);
+      }
+    } else if (typeof a !== 'number' && typeof b !== 'number' && a !== b) {
+      changes.push({ path, from: a ?? null, to: b ?? null });
+    }
+  };
+
+  walk(from?.structured, to?.structured, 'structured');
+  return changes;
+};
+
+// Line diff by longest common subsequence; blank lines are ignored
+export const diffLines = (from: string, to: string): { added: string[]; removed: string[]; unchanged: number } => {
+  const a = from.split('\n').map((line) => line.trimEnd()).filter(Boolean).slice(0, MAX_DIFF_LINES);
+  const b = to.split('\n').map((line) => line.trimEnd()).filter(Boolean).slice(0, MAX_DIFF_LINES);
+
+  // lengths[i][j]: common subsequence length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+
+  removed.push(...a.slice(i));
+  added.push(...b.slice(j));
+
+  return { added, removed, unchanged: lengths[0][0] };
+};
+
+export const diffResults = (fromVersion: number, from: any, toVersion: number, to: any): VersionDiff => ({
+  from: fromVersion,
+  to: toVersion,
+  numbers: diffNumbers(from, to),
+  recommendations: diffRecommendations(from, to),
+  summaryChanged: (from?.executiveSummary || '') !== (to?.executiveSummary || ''),
+  report: diffLines(from?.fullAnalysis || '', to?.fullAnalysis || ''),
+});
\ No newline at end of file
@@ -0,0 +1,16 @@
+import crypto from 'crypto';
+import { config } from './config.js';
+
+// x402pay signs webhooks with an HMAC-SHA256 (hex) of the raw request body; nothing verifies without a secret
+export const verifyWebhookSignature = (rawBody: Buffer | undefined, signature: unknown): boolean => {
+  const secret = config.x402.webhookSecret;
+
+  if (!secret || !rawBody || typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  const given = signature.trim().toLowerCase().replace(/^sha256=/, '');
+
+  return given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+};
\ No newline at end of file
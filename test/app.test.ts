@@ -0,0 +1,43 @@
+import './env.js';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import app from '../src/app.js';
+
+// Loads the whole app with every router it mounts; none of these requests reach the database
+let server: Server;
+let baseUrl: string;
+
+before(() => {
+  server = app.listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+test('serves the health check', async () => {
+  const response = await fetch(`${baseUrl}/health`);
+
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).status, 'healthy');
+});
+
+test('requires authentication on account and mounted router endpoints', async () => {
+  for (const path of ['/api/auth/profile', '/api/organizations', '/api/schedules', '/api/credits', '/api/admin/users']) {
+    const response = await fetch(`${baseUrl}${path}`);
+    assert.equal(response.status, 401, path);
+  }
+});
+
+test('rejects payment webhooks without a valid signature', async () => {
+  const response = await fetch(`${baseUrl}/api/payments/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Signature': 'sha256=00' },
+    body: JSON.stringify({ reference: 'payment-id', status: 'completed' }),
+  });
+
+  assert.equal(response.status, 401);
+});
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { OutcomeCount, PriceCall, buildScoreboard, extractPriceCall, parseTimeframeDays, replayPriceCall } from '../src/utils/backtest.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const calledAt = new Date('2024-01-01T00:00:00Z');
+
+// Prices at the given hours after the call
+const history = (...prices: [number, number][]) => prices.map(([hours, price]) => {
+  const timestamp = calledAt.getTime() + hours * HOUR_MS;
+  return { timestamp, price, date: new Date(timestamp).toISOString() };
+});
+
+const longCall: PriceCall = {
+  direction: 'LONG',
+  referencePrice: 100,
+  entry: { low: 95, high: 98 },
+  targets: [110, 120],
+  stopLoss: 90,
+  horizonDays: 7,
+};
+
+test('parseTimeframeDays reads the upper end of the horizon in days', () => {
+  assert.equal(parseTimeframeDays('2-4 weeks'), 28);
+  assert.equal(parseTimeframeDays('10 days'), 10);
+  assert.equal(parseTimeframeDays('1 to 3 months'), 90);
+  assert.equal(parseTimeframeDays('48 hours'), 2);
+  assert.equal(parseTimeframeDays('soon'), null);
+  assert.equal(parseTimeframeDays(undefined), null);
+});
+
+test('extractPriceCall reads technical targets, entry and stop, inferring shorts from the targets', () => {
+  const long = extractPriceCall('TECHNICAL_ANALYSIS', {
+    cryptoData: { price: 100 },
+    structured: { targets: [120, 110], entry: { low: 98, high: 95 }, stopLoss: 90, timeframe: '1 week' },
+  }, 30);
+  assert.deepEqual(long, longCall);
+
+  const short = extractPriceCall('TECHNICAL_ANALYSIS', {
+    cryptoData: { price: 100 },
+    structured: { targets: [80, 90], stopLoss: 'n/a', timeframe: 'unclear' },
+  }, 30);
+  assert.deepEqual(short, { direction: 'SHORT', referencePrice: 100, entry: null, targets: [90, 80], stopLoss: null, horizonDays: 30 });
+});
+
+test('extractPriceCall turns overview outlooks into calls between support and resistance', () => {
+  const result = (outlook: string) => ({
+    cryptoData: { price: 100 },
+    structured: { outlook, support: [95, 85, 120], resistance: [105, 115, 90] },
+  });
+
+  assert.deepEqual(extractPriceCall('BASIC_OVERVIEW', result('bullish'), 14), {
+    direction: 'LONG', referencePrice: 100, entry: null, targets: [105, 115], stopLoss: 95, horizonDays: 14,
+  });
+  assert.deepEqual(extractPriceCall('BASIC_OVERVIEW', result('bearish'), 14), {
+    direction: 'SHORT', referencePrice: 100, entry: null, targets: [95, 85], stopLoss: 105, horizonDays: 14,
+  });
+  assert.equal(extractPriceCall('BASIC_OVERVIEW', result('neutral'), 14), null);
+});
+
+test('extractPriceCall needs structured output, a reference price and a supported type', () => {
+  assert.equal(extractPriceCall('TECHNICAL_ANALYSIS', { cryptoData: { price: 100 } }, 30), null);
+  assert.equal(extractPriceCall('TECHNICAL_ANALYSIS', { structured: { targets: [110] } }, 30), null);
+  assert.equal(extractPriceCall('TECHNICAL_ANALYSIS', { cryptoData: { price: 100 }, structured: { targets: [] } }, 30), null);
+  assert.equal(extractPriceCall('PORTFOLIO_REVIEW', { cryptoData: { price: 100 }, structured: { targets: [110] } }, 30), null);
+});
+
+test('replayPriceCall resolves on the first target and records every target reached', () => {
+  const replay = replayPriceCall(longCall, calledAt, history([2, 97], [5, 111], [10, 121], [12, 80]), new Date('2024-02-01T00:00:00Z'));
+
+  assert.equal(replay.outcome, 'TARGET_HIT');
+  assert.equal(replay.hoursToOutcome, 5);
+  assert.deepEqual(replay.entryHitAt, new Date(calledAt.getTime() + 2 * HOUR_MS));
+  assert.deepEqual(replay.targets.map((target) => target.hoursToHit), [5, 10]);
+  assert.equal(replay.stopHitAt, null);
+});
+
+test('replayPriceCall stops at the stop loss and ignores prices before the call or after the horizon', () => {
+  const stopped = replayPriceCall(longCall, calledAt, history([-5, 200], [3, 89], [4, 130]), new Date('2024-02-01T00:00:00Z'));
+  assert.equal(stopped.outcome, 'STOP_HIT');
+  assert.equal(stopped.hoursToOutcome, 3);
+  assert.deepEqual(stopped.targets.map((target) => target.hitAt), [null, null]);
+
+  const late = replayPriceCall(longCall, calledAt, history([8 * 24, 130]), new Date('2024-02-01T00:00:00Z'));
+  assert.equal(late.outcome, 'NEITHER');
+});
+
+test('replayPriceCall keeps a call open until its horizon passes', () => {
+  const replay = replayPriceCall(longCall, calledAt, history([1, 101]), new Date('2024-01-03T00:00:00Z'));
+
+  assert.equal(replay.outcome, 'OPEN');
+  assert.deepEqual(replay.horizonEndsAt, new Date('2024-01-08T00:00:00Z'));
+});
+
+test('replayPriceCall mirrors levels for short calls', () => {
+  const short: PriceCall = { ...longCall, direction: 'SHORT', entry: null, targets: [90], stopLoss: 110 };
+
+  assert.equal(replayPriceCall(short, calledAt, history([1, 89]), new Date('2024-02-01T00:00:00Z')).outcome, 'TARGET_HIT');
+  assert.equal(replayPriceCall(short, calledAt, history([1, 111]), new Date('2024-02-01T00:00:00Z')).outcome, 'STOP_HIT');
+});
+
+test('buildScoreboard rates resolved calls and weights average times by call count', () => {
+  const counts: OutcomeCount[] = [
+    { analysisType: 'TECHNICAL_ANALYSIS', model: 'a', outcome: 'TARGET_HIT', count: 3, avgHours: 10 },
+    { analysisType: 'TECHNICAL_ANALYSIS', model: 'b', outcome: 'TARGET_HIT', count: 1, avgHours: 30 },
+    { analysisType: 'TECHNICAL_ANALYSIS', model: 'a', outcome: 'STOP_HIT', count: 2, avgHours: 5 },
+    { analysisType: 'BASIC_OVERVIEW', model: 'a', outcome: 'NEITHER', count: 2, avgHours: null },
+    { analysisType: 'BASIC_OVERVIEW', model: 'a', outcome: 'OPEN', count: 4, avgHours: null },
+    { analysisType: 'BASIC_OVERVIEW', model: 'a', outcome: 'NO_CALL', count: 9, avgHours: null },
+  ];
+
+  const scoreboard = buildScoreboard(counts);
+
+  assert.deepEqual(scoreboard.overall, {
+    calls: 8,
+    targetHit: 4,
+    stopHit: 2,
+    neither: 2,
+    open: 4,
+    hitRate: 0.5,
+    stopRate: 0.25,
+    avgHoursToTarget: 15,
+    avgHoursToStop: 5,
+  });
+  assert.deepEqual(scoreboard.byType.map((row) => [row.analysisType, row.calls]), [['TECHNICAL_ANALYSIS', 6], ['BASIC_OVERVIEW', 2]]);
+  assert.deepEqual(scoreboard.byModel.map((row) => [row.model, row.calls, row.hitRate]), [['a', 7, 0.4286], ['b', 1, 1]]);
+  assert.equal(scoreboard.byTypeAndModel.length, 3);
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextCronRun, parseCron, shortestCronInterval } from '../src/utils/cron.js';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const next = (expression: string, after: string) => nextCronRun(expression, utc(after)).toISOString();
+
+test('parseCron expands ranges, lists and steps', () => {
+  const schedule = parseCron('*/15 9-17 1,15 */3 1-5');
+
+  assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+  assert.deepEqual([...schedule.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+  assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+  assert.deepEqual([...schedule.months], [1, 4, 7, 10]);
+  assert.deepEqual([...schedule.daysOfWeek], [1, 2, 3, 4, 5]);
+  assert.equal(schedule.dayOfMonthRestricted, true);
+  assert.equal(schedule.dayOfWeekRestricted, true);
+});
+
+test('parseCron treats 7 as Sunday and expands shortcuts', () => {
+  assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+  assert.deepEqual(parseCron('@weekly'), parseCron('0 0 * * 0'));
+  assert.deepEqual(parseCron('@daily'), parseCron('0 0 * * *'));
+});
+
+test('parseCron rejects malformed expressions', () => {
+  for (const expression of ['* * * *', '* * * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '5-1 * * * *', '*/0 * * * *', 'a * * * *']) {
+    assert.throws(() => parseCron(expression), Error, expression);
+  }
+});
+
+test('nextCronRun returns the first matching minute strictly after the given time', () => {
+  assert.equal(next('*/15 * * * *', '2024-01-01T10:00:00'), '2024-01-01T10:15:00.000Z');
+  assert.equal(next('*/15 * * * *', '2024-01-01T10:14:59'), '2024-01-01T10:15:00.000Z');
+  assert.equal(next('0 9 * * *', '2024-01-01T09:00:00'), '2024-01-02T09:00:00.000Z');
+  assert.equal(next('@monthly', '2024-01-31T23:59:00'), '2024-02-01T00:00:00.000Z');
+  assert.equal(next('0 0 29 2 *', '2024-03-01T00:00:00'), '2028-02-29T00:00:00.000Z');
+});
+
+test('nextCronRun restricts by weekday and matches either day field when both are set', () => {
+  // 2024-01-01 is a Monday
+  assert.equal(next('30 8 * * 1-5', '2024-01-05T09:00:00'), '2024-01-08T08:30:00.000Z');
+  assert.equal(next('0 0 13 * 5', '2024-01-01T00:00:00'), '2024-01-05T00:00:00.000Z');
+  assert.equal(next('0 0 13 * 5', '2024-01-12T00:00:00'), '2024-01-13T00:00:00.000Z');
+});
+
+test('nextCronRun throws for expressions that never run', () => {
+  assert.throws(() => nextCronRun('0 0 30 2 *', utc('2024-01-01T00:00:00')), /never runs/);
+});
+
+test('shortestCronInterval finds the tightest gap between runs', () => {
+  assert.equal(shortestCronInterval('*/5 * * * *'), 5 * 60_000);
+  assert.equal(shortestCronInterval('0,10 * * * *'), 10 * 60_000);
+  assert.equal(shortestCronInterval('@daily'), 24 * 60 * 60_000);
+});
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  Candle,
+  atr,
+  bollingerBands,
+  computeIndicators,
+  ema,
+  fibonacciRetracements,
+  macd,
+  pivotPoints,
+  rsi,
+  sma,
+  toCandles,
+} from '../src/utils/indicators.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candle = (day: number, high: number, low: number, close: number, open: number = close): Candle =>
+  ({ timestamp: day * DAY_MS, open, high, low, close });
+
+// Daily candles closing at 1, 2, 3...; each spans one either side of its close
+const risingCandles = (count: number): Candle[] =>
+  Array.from({ length: count }, (_, index) => candle(index, index + 2, index, index + 1));
+
+test('toCandles buckets price points into daily OHLC candles in time order', () => {
+  const point = (timestamp: number, price: number) => ({ timestamp, price, date: new Date(timestamp).toISOString() });
+  const candles = toCandles([
+    point(DAY_MS + 3_600_000, 12),
+    point(1_000, 10),
+    point(DAY_MS + 1_000, 11),
+    point(7_200_000, 8),
+    point(DAY_MS + 7_200_000, 9),
+  ]);
+
+  assert.deepEqual(candles, [
+    { timestamp: 0, open: 10, high: 10, low: 8, close: 8 },
+    { timestamp: DAY_MS, open: 11, high: 12, low: 9, close: 9 },
+  ]);
+});
+
+test('sma and ema are null until a full period has accumulated', () => {
+  assert.deepEqual(sma([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  assert.deepEqual(ema([1, 2, 3, 4, 5], 3), [null, null, 2, 3, 4]);
+  assert.deepEqual(ema([1, 2], 3), [null, null]);
+});
+
+test('rsi uses Wilder smoothing and reads 100 without losses', () => {
+  assert.deepEqual(rsi([1, 2, 1, 2, 1], 2), [null, null, 50, 75, 37.5]);
+  assert.deepEqual(rsi([1, 2, 3, 4], 2), [null, null, 100, 100]);
+  assert.deepEqual(rsi([1, 2], 2), [null, null]);
+});
+
+test('macd settles at zero for a flat price and starts its signal after the MACD line', () => {
+  const { macd: line, signal, histogram } = macd(Array(40).fill(100));
+
+  assert.equal(line[24], null);
+  assert.equal(line[25], 0);
+  assert.equal(signal[32], null);
+  assert.equal(signal[33], 0);
+  assert.equal(histogram[39], 0);
+});
+
+test('bollingerBands sit two population standard deviations around the average', () => {
+  const bands = bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8);
+
+  assert.equal(bands.middle[7], 5);
+  assert.equal(bands.upper[7], 9);
+  assert.equal(bands.lower[7], 1);
+  assert.equal(bands.upper[6], null);
+});
+
+test('atr averages true ranges, including gaps from the previous close', () => {
+  const candles = [candle(0, 10, 8, 9), candle(1, 11, 9, 10), candle(2, 14, 10, 13), candle(3, 13, 12, 12)];
+
+  assert.deepEqual(atr(candles, 2), [null, null, 3, 2]);
+});
+
+test('fibonacciRetracements measure back from the latest extreme', () => {
+  const up = fibonacciRetracements([candle(0, 110, 100, 105), candle(1, 200, 150, 190)]);
+  assert.equal(up.trend, 'up');
+  assert.equal(up.levels['0.0%'], 200);
+  assert.equal(up.levels['50.0%'], 150);
+  assert.equal(up.levels['100.0%'], 100);
+
+  const down = fibonacciRetracements([candle(0, 200, 150, 190), candle(1, 110, 100, 105)]);
+  assert.equal(down.trend, 'down');
+  assert.equal(down.levels['0.0%'], 100);
+  assert.equal(down.levels['61.8%'], 161.8);
+});
+
+test('pivotPoints are classic floor pivots', () => {
+  assert.deepEqual(pivotPoints(candle(0, 12, 6, 9)), { pivot: 9, r1: 12, r2: 15, r3: 18, s1: 6, s2: 3, s3: 0 });
+});
+
+test('computeIndicators reports the latest value of every indicator', () => {
+  const snapshot = computeIndicators(risingCandles(60));
+
+  assert.equal(snapshot.asOf, new Date(59 * DAY_MS).toISOString());
+  assert.equal(snapshot.candles, 60);
+  assert.equal(snapshot.price, 60);
+  assert.deepEqual(snapshot.sma, { sma20: 50.5, sma50: 35.5 });
+  assert.equal(snapshot.rsi14, 100);
+  assert.equal(snapshot.atr14, 2);
+  assert.equal(snapshot.fibonacci.trend, 'up');
+  assert.deepEqual(snapshot.pivots, pivotPoints(candle(58, 60, 58, 59)));
+});
+
+test('computeIndicators leaves indicators without enough history null', () => {
+  const snapshot = computeIndicators(risingCandles(1));
+
+  assert.equal(snapshot.sma.sma20, null);
+  assert.equal(snapshot.rsi14, null);
+  assert.equal(snapshot.macd.macd, null);
+  assert.equal(snapshot.pivots, null);
+  assert.throws(() => computeIndicators([]), /No candles/);
+});
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from '../src/utils/totp.js';
+
+// RFC 6238 appendix B SHA-1 key ("12345678901234567890") and vectors, truncated to six digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+];
+
+test('base32 round-trips arbitrary bytes', () => {
+  const bytes = Buffer.from([0, 1, 2, 127, 128, 254, 255]);
+
+  assert.equal(base32Encode(Buffer.from('12345678901234567890')), RFC_SECRET);
+  assert.deepEqual(base32Decode(base32Encode(bytes)), bytes);
+  assert.deepEqual(base32Decode(RFC_SECRET.toLowerCase()), Buffer.from('12345678901234567890'));
+});
+
+test('base32Decode rejects characters outside the alphabet', () => {
+  assert.throws(() => base32Decode('ABC1'), /Invalid base32 character/);
+});
+
+test('generateTotp matches the RFC 6238 test vectors', () => {
+  for (const [seconds, code] of RFC_VECTORS) {
+    assert.equal(generateTotp(RFC_SECRET, seconds * 1000), code, `T=${seconds}`);
+  }
+});
+
+test('verifyTotp accepts one step of drift either way and returns the matching step', () => {
+  const now = 1234567890 * 1000;
+  const step = Math.floor(1234567890 / 30);
+
+  assert.equal(verifyTotp(RFC_SECRET, '005924', now), step);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30_000), now), step - 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30_000), now), step + 1);
+  assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 60_000), now), null);
+});
+
+test('verifyTotp rejects malformed codes', () => {
+  const now = 59 * 1000;
+
+  for (const code of ['', '28708', '2870820', '28708a', ' 287082']) {
+    assert.equal(verifyTotp(RFC_SECRET, code, now), null, JSON.stringify(code));
+  }
+});
+
+test('generated secrets are 160-bit base32 strings', () => {
+  const secret = generateTotpSecret();
+
+  assert.match(secret, /^[A-Z2-7]{32}$/);
+  assert.equal(base32Decode(secret).length, 20);
+  assert.notEqual(generateTotpSecret(), secret);
+});
+
+test('buildOtpAuthUrl describes the secret for authenticator apps', () => {
+  const url = new URL(buildOtpAuthUrl(RFC_SECRET, 'user@example.com', 'CryptoAnalyst AI'));
+
+  assert.equal(url.protocol, 'otpauth:');
+  assert.equal(url.host, 'totp');
+  assert.equal(decodeURIComponent(url.pathname), '/CryptoAnalyst AI:user@example.com');
+  assert.equal(url.searchParams.get('secret'), RFC_SECRET);
+  assert.equal(url.searchParams.get('issuer'), 'CryptoAnalyst AI');
+  assert.equal(url.searchParams.get('digits'), '6');
+  assert.equal(url.searchParams.get('period'), '30');
+});
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffLines, diffNumbers, diffRecommendations, diffResults } from '../src/utils/versionDiff.js';
+
+test('diffNumbers compares numeric leaves of the data sections', () => {
+  const changes = diffNumbers(
+    { cryptoData: { price: 100, name: 'Bitcoin' }, indicators: { rsi14: 55 }, structured: { targets: [110, 120] }, other: { price: 1 } },
+    { cryptoData: { price: 110, name: 'Bitcoin' }, indicators: { rsi14: 55 }, structured: { targets: [115] }, other: { price: 2 } }
+  );
+
+  assert.deepEqual(changes, [
+    { path: 'cryptoData.price', from: 100, to: 110, change: 10, changePercent: 10 },
+    { path: 'structured.targets[0]', from: 110, to: 115, change: 5, changePercent: 4.55 },
+    { path: 'structured.targets[1]', from: 120, to: null, change: null, changePercent: null },
+  ]);
+});
+
+test('diffNumbers leaves the percentage null when the old value is zero', () => {
+  assert.deepEqual(diffNumbers({ marketData: { change: 0 } }, { marketData: { change: -2.5 } }), [
+    { path: 'marketData.change', from: 0, to: -2.5, change: -2.5, changePercent: null },
+  ]);
+});
+
+test('diffRecommendations reports changed fields and list items as sets', () => {
+  const changes = diffRecommendations(
+    { structured: { outlook: 'bullish', confidence: 70, risks: ['regulation', 'liquidity'], levels: [{ label: 'support' }] } },
+    { structured: { outlook: 'neutral', confidence: 60, risks: ['liquidity', 'volatility'], levels: [{ label: 'resistance' }] } }
+  );
+
+  assert.deepEqual(changes, [
+    { path: 'structured.outlook', from: 'bullish', to: 'neutral' },
+    {
+      path: 'structured.risks',
+      from: ['regulation', 'liquidity'],
+      to: ['liquidity', 'volatility'],
+      added: ['volatility'],
+      removed: ['regulation'],
+    },
+    { path: 'structured.levels[0].label', from: 'support', to: 'resistance' },
+  ]);
+});
+
+test('diffRecommendations handles a version without structured output', () => {
+  assert.deepEqual(diffRecommendations({}, { structured: { outlook: 'bearish' } }), [
+    { path: 'structured.outlook', from: null, to: 'bearish' },
+  ]);
+  assert.deepEqual(diffRecommendations({}, {}), []);
+});
+
+test('diffLines finds added and removed lines, ignoring blank lines and trailing spaces', () => {
+  const diff = diffLines('# Report\n\nPrice is up  \nOutlook: bullish\nRisks', '# Report\nPrice is up\nOutlook: neutral\nRisks\nNew section');
+
+  assert.deepEqual(diff, { added: ['Outlook: neutral', 'New section'], removed: ['Outlook: bullish'], unchanged: 3 });
+});
+
+test('diffResults combines every part of the comparison', () => {
+  const diff = diffResults(
+    1,
+    { cryptoData: { price: 100 }, executiveSummary: 'Old', fullAnalysis: 'Same' },
+    2,
+    { cryptoData: { price: 100 }, executiveSummary: 'New', fullAnalysis: 'Same' }
+  );
+
+  assert.deepEqual(diff, {
+    from: 1,
+    to: 2,
+    numbers: [],
+    recommendations: [],
+    summaryChanged: true,
+    report: { added: [], removed: [], unchanged: 1 },
+  });
+});
\ No newline at end of file
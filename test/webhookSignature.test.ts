@@ -0,0 +1,31 @@
+import './env.js';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { config } from '../src/utils/config.js';
+import { verifyWebhookSignature } from '../src/utils/webhookSignature.js';
+
+const body = Buffer.from(JSON.stringify({ reference: 'payment-id', status: 'completed', transaction_hash: '0xabc' }));
+const sign = (rawBody: Buffer, secret: string = config.x402.webhookSecret!) =>
+  crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+
+test('accepts an HMAC-SHA256 of the raw body, with or without the sha256= prefix', () => {
+  assert.equal(verifyWebhookSignature(body, sign(body)), true);
+  assert.equal(verifyWebhookSignature(body, `sha256=${sign(body)}`), true);
+  assert.equal(verifyWebhookSignature(body, sign(body).toUpperCase()), true);
+});
+
+test('rejects signatures made with another secret or over another body', () => {
+  const tampered = Buffer.from(body.toString().replace('completed', 'failed'));
+
+  assert.equal(verifyWebhookSignature(body, sign(body, 'another-secret')), false);
+  assert.equal(verifyWebhookSignature(tampered, sign(body)), false);
+  assert.equal(verifyWebhookSignature(body, sign(body).slice(0, -2)), false);
+});
+
+test('rejects requests without a raw body or a string signature', () => {
+  assert.equal(verifyWebhookSignature(undefined, sign(body)), false);
+  assert.equal(verifyWebhookSignature(body, undefined), false);
+  assert.equal(verifyWebhookSignature(body, [sign(body)]), false);
+  assert.equal(verifyWebhookSignature(body, ''), false);
+});
\ No newline at end of file